@@ -1,18 +1,12 @@
-import { copilotApi } from 'copilot-node-sdk';
 import { GA4Dashboard } from '@/app/components/GA4Dashboard';
 import { TokenGate } from '@/components/TokenGate';
 import { Container } from '@/components/Container';
+import { getSession } from '@/utils/session';
 
 export const revalidate = 180;
 
 async function Content({ searchParams }: { searchParams: SearchParams }) {
-  const { token } = searchParams;
-  const copilot = copilotApi({
-    apiKey: process.env.COPILOT_API_KEY ?? '',
-    token: typeof token === 'string' ? token : undefined,
-  });
-
-  const workspace = await copilot.retrieveWorkspace();
+  const { internalUser, workspace } = await getSession(searchParams);
   
   return (
     <Container>
@@ -22,7 +16,7 @@ async function Content({ searchParams }: { searchParams: SearchParams }) {
           <p className="text-gray-600 mt-2">View your website analytics below</p>
         </div>
         
-        <GA4Dashboard />
+        <GA4Dashboard canSwitchCompany={!!internalUser} portalUrl={workspace.portalUrl} />
       </div>
     </Container>
   );
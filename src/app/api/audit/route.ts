@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auditRecordsToCsv, readAuditRecords, type AuditFilter } from '@/utils/audit';
+import { dataSources } from '@/utils/tenants';
+import { ApiError, withSession } from '@/utils/withSession';
+
+export const dynamic = 'force-dynamic';
+
+// `company` rather than `companyId`, which withSession reads as an
+// internal user's company override.
+const filterSchema = z.object({
+  company: z.string().optional(),
+  user: z.string().optional(),
+  source: z.enum(dataSources as [string, ...string[]]).optional(),
+  outcome: z
+    .enum(['success', 'denied', 'unavailable', 'rejected', 'error'])
+    .optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(500),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+export const GET = withSession(
+  { internalOnly: true, errorMessage: 'Failed to read audit log' },
+  async (request) => {
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams].filter(([, value]) => value !== '')
+    );
+    const filter = filterSchema.safeParse(params);
+    if (!filter.success) {
+      throw new ApiError(400, 'Invalid audit log filter', {
+        issues: filter.error.issues.map((issue) => issue.message),
+      });
+    }
+
+    const { format, company, user, ...rest } = filter.data;
+    const records = await readAuditRecords({
+      ...(rest as Omit<AuditFilter, 'companyId' | 'userId'>),
+      companyId: company,
+      userId: user,
+    });
+
+    if (format === 'csv') {
+      return new NextResponse(auditRecordsToCsv(records), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ records });
+  },
+);
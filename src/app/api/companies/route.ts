@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { canAccessCompany, listAllCompanies } from '@/utils/companies';
+import { dataSources, getTenant, getTenantSource } from '@/utils/tenants';
+import { withSession } from '@/utils/withSession';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Companies an internal user can switch the dashboard to: those with a
+ * tenant mapping that the user is allowed to see in Copilot.
+ */
+export const GET = withSession(
+  { internalOnly: true, errorMessage: 'Failed to load companies' },
+  async (_request, { copilot, internalUser }) => {
+    const companies = (await listAllCompanies(copilot)).flatMap((company) => {
+      const tenant = getTenant(company.id);
+      if (!tenant || (internalUser && !canAccessCompany(internalUser, company.id))) {
+        return [];
+      }
+      return [
+        {
+          id: company.id,
+          name: company.name,
+          sources: dataSources.filter((source) => getTenantSource(tenant, source)),
+        },
+      ];
+    });
+
+    return NextResponse.json({
+      companies: companies.sort((a, b) => a.name.localeCompare(b.name)),
+    });
+  },
+);
@@ -1,169 +1,265 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { BetaAnalyticsDataClient } from '@google-analytics/data';
-import { copilotApi } from 'copilot-node-sdk';
-
-// Map company IDs to their GA4 property IDs, names, and Google Ads Customer IDs
-const PROPERTY_MAPPING: Record<string, { propertyId: string; name: string; adsCustomerId: string }> = {
-  'default': { propertyId: '270323387', name: 'Art Unlimited', adsCustomerId: '1196391424' },
-  '7d52dc8e-c603-4c7e-ad27-60c15a86c12f': { propertyId: '270323387', name: 'Art Unlimited', adsCustomerId: '1196391424' },
-  'fdb96a2c-a6ad-4238-9747-06b3ce7e8840': { propertyId: '266834246', name: 'Alans Roofing', adsCustomerId: '9499823115' },
-  '61e7c938-fd52-4693-b79b-c2fb2349b61d': { propertyId: '260457321', name: 'Straight Line', adsCustomerId: '7116961973' },
-  'de381a8e-db60-447f-9114-418d874f087b': { propertyId: '270368443', name: 'Bill West Roofing', adsCustomerId: '8289173629' },
-};
+import { NextResponse } from 'next/server';
+import {
+  comparisonModes,
+  comparisonRange,
+  granularityOptions,
+  isComparisonMode,
+  isGranularityOption,
+  resolveGranularity,
+  type Granularity,
+} from '@/utils/dateRanges';
+import { QUOTA_LIMITED_MESSAGE } from '@/utils/ga4Quota';
+import {
+  createAnalyticsClient,
+  runQuotaAwareReports,
+  serverTimingHeader,
+  type ReportResponse,
+  type ReportRow,
+} from '@/utils/ga4Reports';
+import { ApiError, parseDateRange, withSession } from '@/utils/withSession';
 
-export async function GET(request: NextRequest) {
-  try {
-    const token = request.nextUrl.searchParams.get('token');
-    const startDate = request.nextUrl.searchParams.get('startDate') || '30daysAgo';
-    const endDate = request.nextUrl.searchParams.get('endDate') || 'today';
-    
-    if (!token) {
-      return NextResponse.json({ error: 'No token provided' }, { status: 401 });
-    }
+// With more than one date range GA4 adds a `dateRange` dimension naming
+// the window each row belongs to
+function rowsForRange(response: ReportResponse | undefined, name: string) {
+  if (!response) return [];
+  const index =
+    response.dimensionHeaders?.findIndex((header) => header.name === 'dateRange') ?? -1;
+  if (index === -1) return response.rows ?? [];
+  return (response.rows ?? []).filter(
+    (row) => row.dimensionValues?.[index]?.value === name
+  );
+}
 
-    // Initialize Copilot API
-    const copilot = copilotApi({
-      apiKey: process.env.COPILOT_API_KEY ?? '',
-      token: token,
-    });
+// Time-series buckets: YYYYMMDD, YYYYWW or YYYYMM
+const granularityDimensions: Record<Granularity, string> = {
+  day: 'date',
+  week: 'yearWeek',
+  month: 'yearMonth',
+};
 
-    const session = await copilot.getTokenPayload?.();
-    const companyId = session?.companyId || 'default';
-    const companyConfig = PROPERTY_MAPPING[companyId] || PROPERTY_MAPPING['default'];
+function parseMainMetrics(row: ReportRow | undefined) {
+  return row ? {
+    activeUsers: parseInt(row.metricValues?.[0]?.value || '0'),
+    sessions: parseInt(row.metricValues?.[1]?.value || '0'),
+    pageViews: parseInt(row.metricValues?.[2]?.value || '0'),
+    avgSessionDuration: parseFloat(row.metricValues?.[3]?.value || '0'),
+    bounceRate: (parseFloat(row.metricValues?.[4]?.value || '0') * 100).toFixed(2),
+    newUsers: parseInt(row.metricValues?.[5]?.value || '0'),
+    engagementRate: (parseFloat(row.metricValues?.[6]?.value || '0') * 100).toFixed(2),
+    keyEvents: parseFloat(row.metricValues?.[7]?.value || '0'),
+    conversionRate: (parseFloat(row.metricValues?.[8]?.value || '0') * 100).toFixed(2),
+  } : null;
+}
 
-    // Initialize GA4 client
-    const credentials = JSON.parse(process.env.GA4_SERVICE_ACCOUNT || '{}');
-    const analyticsDataClient = new BetaAnalyticsDataClient({
-      credentials,
-    });
+function parseTimeSeries(rows: ReportRow[]) {
+  return rows
+    .map(row => ({
+      date: row.dimensionValues?.[0]?.value || '',
+      activeUsers: parseInt(row.metricValues?.[0]?.value || '0'),
+      sessions: parseInt(row.metricValues?.[1]?.value || '0'),
+      pageViews: parseInt(row.metricValues?.[2]?.value || '0'),
+      keyEvents: parseFloat(row.metricValues?.[3]?.value || '0'),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
 
-    // Fetch main metrics
-    const [metricsResponse] = await analyticsDataClient.runReport({
-      property: `properties/${companyConfig.propertyId}`,
-      dateRanges: [{ startDate, endDate }],
-      metrics: [
-        { name: 'activeUsers' },
-        { name: 'sessions' },
-        { name: 'screenPageViews' },
-        { name: 'averageSessionDuration' },
-        { name: 'bounceRate' },
-        { name: 'newUsers' },
-        { name: 'engagementRate' },
-      ],
-    });
+export const GET = withSession(
+  { source: 'ga4', errorMessage: 'Failed to fetch analytics data' },
+  async (request, { tenant, sourceConfig }) => {
+    const { startDate, endDate } = parseDateRange(request.nextUrl.searchParams);
+    const compareParam = request.nextUrl.searchParams.get('compare');
+    const granularityParam = request.nextUrl.searchParams.get('granularity') || 'auto';
+    const companyId = tenant.companyId;
+    const propertyId = sourceConfig.propertyId;
 
-    // Fetch metrics over time (daily breakdown)
-    const [timeSeriesResponse] = await analyticsDataClient.runReport({
-      property: `properties/${companyConfig.propertyId}`,
-      dateRanges: [{ startDate, endDate }],
-      dimensions: [{ name: 'date' }],
-      metrics: [
-        { name: 'activeUsers' },
-        { name: 'sessions' },
-        { name: 'screenPageViews' },
-      ],
-      orderBys: [{ dimension: { dimensionName: 'date' }, desc: false }],
-    });
+    if (compareParam && !isComparisonMode(compareParam)) {
+      throw new ApiError(400, `Unknown comparison "${compareParam}"`, {
+        allowed: comparisonModes,
+      });
+    }
+    const compare = isComparisonMode(compareParam) ? compareParam : undefined;
+    if (!isGranularityOption(granularityParam)) {
+      throw new ApiError(400, `Unknown granularity "${granularityParam}"`, {
+        allowed: granularityOptions,
+      });
+    }
+    const granularity = resolveGranularity(granularityParam, { startDate, endDate });
+    const timeDimension = granularityDimensions[granularity];
+    const previousRange = compare
+      ? comparisonRange({ startDate, endDate }, compare)
+      : null;
 
-    // Fetch top pages
-    const [pagesResponse] = await analyticsDataClient.runReport({
-      property: `properties/${companyConfig.propertyId}`,
-      dateRanges: [{ startDate, endDate }],
-      dimensions: [{ name: 'pageTitle' }, { name: 'pagePath' }],
-      metrics: [{ name: 'screenPageViews' }],
-      orderBys: [{ metric: { metricName: 'screenPageViews' }, desc: true }],
-      limit: 10,
-    });
+    // The headline numbers and the time series cover both windows when
+    // comparing; the breakdowns only cover the selected one
+    const dateRanges = [
+      { startDate, endDate, name: 'current' },
+      ...(previousRange ? [{ ...previousRange, name: 'previous' }] : []),
+    ];
 
-    // Fetch traffic sources
-    const [sourcesResponse] = await analyticsDataClient.runReport({
-      property: `properties/${companyConfig.propertyId}`,
-      dateRanges: [{ startDate, endDate }],
-      dimensions: [{ name: 'sessionDefaultChannelGroup' }],
-      metrics: [{ name: 'sessions' }],
-      orderBys: [{ metric: { metricName: 'sessions' }, desc: true }],
-    });
+    // Initialize GA4 client
+    const analyticsDataClient = createAnalyticsClient();
 
-    // Fetch device breakdown
-    const [devicesResponse] = await analyticsDataClient.runReport({
-      property: `properties/${companyConfig.propertyId}`,
-      dateRanges: [{ startDate, endDate }],
-      dimensions: [{ name: 'deviceCategory' }],
-      metrics: [{ name: 'activeUsers' }],
-    });
+    // All seven reports go out as GA4 batches in parallel; one failing
+    // leaves its section empty instead of failing the dashboard
+    const reports = await runQuotaAwareReports(
+      analyticsDataClient,
+      `properties/${propertyId}`,
+      {
+        // Main metrics
+        metrics: {
+          dateRanges,
+          metrics: [
+            { name: 'activeUsers' },
+            { name: 'sessions' },
+            { name: 'screenPageViews' },
+            { name: 'averageSessionDuration' },
+            { name: 'bounceRate' },
+            { name: 'newUsers' },
+            { name: 'engagementRate' },
+            { name: 'keyEvents' },
+            { name: 'sessionKeyEventRate' },
+          ],
+        },
+        // Metrics over time, by day, week or month
+        timeSeries: {
+          dateRanges,
+          dimensions: [{ name: timeDimension }],
+          metrics: [
+            { name: 'activeUsers' },
+            { name: 'sessions' },
+            { name: 'screenPageViews' },
+            { name: 'keyEvents' },
+          ],
+          orderBys: [{ dimension: { dimensionName: timeDimension }, desc: false }],
+        },
+        // Top pages
+        topPages: {
+          dateRanges: [{ startDate, endDate }],
+          dimensions: [{ name: 'pageTitle' }, { name: 'pagePath' }],
+          metrics: [{ name: 'screenPageViews' }],
+          orderBys: [{ metric: { metricName: 'screenPageViews' }, desc: true }],
+          limit: 10,
+        },
+        // Traffic sources
+        trafficSources: {
+          dateRanges: [{ startDate, endDate }],
+          dimensions: [{ name: 'sessionDefaultChannelGroup' }],
+          metrics: [{ name: 'sessions' }],
+          orderBys: [{ metric: { metricName: 'sessions' }, desc: true }],
+        },
+        // Device breakdown
+        devices: {
+          dateRanges: [{ startDate, endDate }],
+          dimensions: [{ name: 'deviceCategory' }],
+          metrics: [{ name: 'activeUsers' }],
+        },
+        // Events marked as key events (form submits, calls, ...)
+        keyEvents: {
+          dateRanges: [{ startDate, endDate }],
+          dimensions: [{ name: 'eventName' }],
+          metrics: [{ name: 'keyEvents' }, { name: 'eventCount' }],
+          metricFilter: {
+            filter: {
+              fieldName: 'keyEvents',
+              numericFilter: { operation: 'GREATER_THAN', value: { doubleValue: 0 } },
+            },
+          },
+          orderBys: [{ metric: { metricName: 'keyEvents' }, desc: true }],
+          limit: 20,
+        },
+        // Key events and conversion rate by channel
+        conversionsByChannel: {
+          dateRanges: [{ startDate, endDate }],
+          dimensions: [{ name: 'sessionDefaultChannelGroup' }],
+          metrics: [{ name: 'keyEvents' }, { name: 'sessions' }, { name: 'sessionKeyEventRate' }],
+          orderBys: [{ metric: { metricName: 'keyEvents' }, desc: true }],
+        },
+      }
+    );
+    console.log('GA4 report timings (ms):', reports.timings, 'total:', reports.totalMs.toFixed(1));
 
-    // Fetch top countries
-    const [countriesResponse] = await analyticsDataClient.runReport({
-      property: `properties/${companyConfig.propertyId}`,
-      dateRanges: [{ startDate, endDate }],
-      dimensions: [{ name: 'country' }],
-      metrics: [{ name: 'activeUsers' }],
-      orderBys: [{ metric: { metricName: 'activeUsers' }, desc: true }],
-      limit: 10,
-    });
+    if (Object.keys(reports.responses).length === 0) {
+      if (reports.limited) {
+        throw new ApiError(429, QUOTA_LIMITED_MESSAGE, { reason: 'quota_limited' });
+      }
+      throw new Error(`All GA4 reports failed: ${Object.values(reports.errors)[0]}`);
+    }
+    const {
+      metrics: metricsResponse,
+      timeSeries: timeSeriesResponse,
+      topPages: pagesResponse,
+      trafficSources: sourcesResponse,
+      devices: devicesResponse,
+      keyEvents: keyEventsResponse,
+      conversionsByChannel: channelConversionsResponse,
+    } = reports.responses;
 
     // Parse main metrics
-    const mainRow = metricsResponse.rows?.[0];
-    const mainMetrics = mainRow ? {
-      activeUsers: parseInt(mainRow.metricValues?.[0]?.value || '0'),
-      sessions: parseInt(mainRow.metricValues?.[1]?.value || '0'),
-      pageViews: parseInt(mainRow.metricValues?.[2]?.value || '0'),
-      avgSessionDuration: parseFloat(mainRow.metricValues?.[3]?.value || '0'),
-      bounceRate: (parseFloat(mainRow.metricValues?.[4]?.value || '0') * 100).toFixed(2),
-      newUsers: parseInt(mainRow.metricValues?.[5]?.value || '0'),
-      engagementRate: (parseFloat(mainRow.metricValues?.[6]?.value || '0') * 100).toFixed(2),
-    } : null;
+    const mainMetrics = parseMainMetrics(rowsForRange(metricsResponse, 'current')[0]);
 
     // Parse time series
-    const timeSeries = timeSeriesResponse.rows?.map(row => ({
-      date: row.dimensionValues?.[0]?.value || '',
-      activeUsers: parseInt(row.metricValues?.[0]?.value || '0'),
-      sessions: parseInt(row.metricValues?.[1]?.value || '0'),
-      pageViews: parseInt(row.metricValues?.[2]?.value || '0'),
-    })) || [];
+    const timeSeries = parseTimeSeries(rowsForRange(timeSeriesResponse, 'current'));
 
     // Parse top pages
-    const topPages = pagesResponse.rows?.map(row => ({
+    const topPages = pagesResponse?.rows?.map(row => ({
       title: row.dimensionValues?.[0]?.value || 'Unknown',
       path: row.dimensionValues?.[1]?.value || '/',
       views: parseInt(row.metricValues?.[0]?.value || '0'),
     })) || [];
 
     // Parse traffic sources
-    const trafficSources = sourcesResponse.rows?.map(row => ({
+    const trafficSources = sourcesResponse?.rows?.map(row => ({
       source: row.dimensionValues?.[0]?.value || 'Unknown',
       sessions: parseInt(row.metricValues?.[0]?.value || '0'),
     })) || [];
 
     // Parse devices
-    const devices = devicesResponse.rows?.map(row => ({
+    const devices = devicesResponse?.rows?.map(row => ({
       device: row.dimensionValues?.[0]?.value || 'Unknown',
       users: parseInt(row.metricValues?.[0]?.value || '0'),
     })) || [];
 
-    // Parse countries
-    const countries = countriesResponse.rows?.map(row => ({
-      country: row.dimensionValues?.[0]?.value || 'Unknown',
-      users: parseInt(row.metricValues?.[0]?.value || '0'),
+    // Parse key events
+    const keyEvents = keyEventsResponse?.rows?.map(row => ({
+      eventName: row.dimensionValues?.[0]?.value || 'Unknown',
+      keyEvents: parseFloat(row.metricValues?.[0]?.value || '0'),
+      eventCount: parseInt(row.metricValues?.[1]?.value || '0'),
+    })) || [];
+
+    // Parse conversions by channel
+    const conversionsByChannel = channelConversionsResponse?.rows?.map(row => ({
+      channel: row.dimensionValues?.[0]?.value || 'Unknown',
+      keyEvents: parseFloat(row.metricValues?.[0]?.value || '0'),
+      sessions: parseInt(row.metricValues?.[1]?.value || '0'),
+      conversionRate: (parseFloat(row.metricValues?.[2]?.value || '0') * 100).toFixed(2),
     })) || [];
 
     return NextResponse.json({
       companyId,
-      companyName: companyConfig.name,
+      companyName: tenant.name,
       dateRange: { startDate, endDate },
+      granularity,
+      comparison: compare && previousRange ? {
+        mode: compare,
+        dateRange: previousRange,
+        metrics: parseMainMetrics(rowsForRange(metricsResponse, 'previous')[0]),
+        timeSeries: parseTimeSeries(rowsForRange(timeSeriesResponse, 'previous')),
+      } : null,
       metrics: mainMetrics,
       timeSeries,
       topPages,
       trafficSources,
       devices,
-      countries,
+      keyEvents,
+      conversionsByChannel,
+      // Reports that failed even when retried on their own
+      errors: reports.errors,
+      // Set when GA4 quota ran low; cachedAt says how old the data is
+      limited: reports.limited,
+      cachedAt: reports.cachedAt,
+      quota: reports.quota,
+    }, {
+      headers: { 'Server-Timing': serverTimingHeader(reports) },
     });
-
-  } catch (error: any) {
-    console.error('GA4 API Error:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch analytics data', details: error.message },
-      { status: 500 }
-    );
-  }
-}
+  },
+);
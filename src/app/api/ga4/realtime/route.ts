@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { isQuotaError, QUOTA_LIMITED_MESSAGE } from '@/utils/ga4Quota';
+import { createAnalyticsClient } from '@/utils/ga4Reports';
+import { ApiError, withSession } from '@/utils/withSession';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Active users over the last 30 minutes, overall and by page and device.
+ * Realtime reports can't be batched, so the three run in parallel.
+ * They draw on GA4's separate realtime quota, so they neither record nor
+ * check the core quota the other reports track, but running out of it
+ * gets the same 429 `quota_limited` answer.
+ */
+export const GET = withSession(
+  // RealtimeWidget polls every minute
+  { source: 'ga4', polled: true, errorMessage: 'Failed to fetch realtime data' },
+  async (_request, { tenant, sourceConfig }) => {
+    const property = `properties/${sourceConfig.propertyId}`;
+    const analyticsDataClient = createAnalyticsClient();
+
+    const [[totalsResponse], [pagesResponse], [devicesResponse]] = await Promise.all([
+      analyticsDataClient.runRealtimeReport({
+        property,
+        metrics: [{ name: 'activeUsers' }],
+      }),
+      analyticsDataClient.runRealtimeReport({
+        property,
+        dimensions: [{ name: 'unifiedScreenName' }],
+        metrics: [{ name: 'activeUsers' }],
+        orderBys: [{ metric: { metricName: 'activeUsers' }, desc: true }],
+        limit: 10,
+      }),
+      analyticsDataClient.runRealtimeReport({
+        property,
+        dimensions: [{ name: 'deviceCategory' }],
+        metrics: [{ name: 'activeUsers' }],
+      }),
+    ]).catch((error) => {
+      if (isQuotaError(error)) {
+        throw new ApiError(429, QUOTA_LIMITED_MESSAGE, { reason: 'quota_limited' });
+      }
+      throw error;
+    });
+
+    const pages = pagesResponse.rows?.map(row => ({
+      title: row.dimensionValues?.[0]?.value || '(not set)',
+      activeUsers: parseInt(row.metricValues?.[0]?.value || '0'),
+    })) || [];
+
+    const devices = devicesResponse.rows?.map(row => ({
+      device: row.dimensionValues?.[0]?.value || 'Unknown',
+      activeUsers: parseInt(row.metricValues?.[0]?.value || '0'),
+    })) || [];
+
+    return NextResponse.json({
+      companyId: tenant.companyId,
+      companyName: tenant.name,
+      activeUsers: parseInt(totalsResponse.rows?.[0]?.metricValues?.[0]?.value || '0'),
+      pages,
+      devices,
+      fetchedAt: new Date().toISOString(),
+    });
+  },
+);
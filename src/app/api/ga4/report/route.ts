@@ -0,0 +1,216 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkDateRange, dateRangeFields } from '@/utils/dateRanges';
+import { QUOTA_LIMITED_MESSAGE } from '@/utils/ga4Quota';
+import {
+  createAnalyticsClient,
+  runQuotaAwareReports,
+  type ReportRequest,
+} from '@/utils/ga4Reports';
+import { ApiError, withSession } from '@/utils/withSession';
+
+export const dynamic = 'force-dynamic';
+
+// Only what the dashboard widgets need. Anything else (user-scoped
+// custom dimensions, item-level data) stays out of reach of the client.
+const DIMENSIONS = [
+  'date',
+  'yearWeek',
+  'yearMonth',
+  'country',
+  'region',
+  'city',
+  'deviceCategory',
+  'browser',
+  'operatingSystem',
+  'language',
+  'newVsReturning',
+  'sessionDefaultChannelGroup',
+  'sessionSource',
+  'sessionMedium',
+  'sessionSourceMedium',
+  'sessionCampaignName',
+  'pagePath',
+  'pageTitle',
+  'landingPage',
+  'eventName',
+] as const;
+
+const METRICS = [
+  'activeUsers',
+  'newUsers',
+  'totalUsers',
+  'sessions',
+  'engagedSessions',
+  'screenPageViews',
+  'screenPageViewsPerSession',
+  'averageSessionDuration',
+  'userEngagementDuration',
+  'bounceRate',
+  'engagementRate',
+  'eventCount',
+  'keyEvents',
+] as const;
+
+const FILTER_OPERATORS = ['exact', 'contains', 'beginsWith', 'in'] as const;
+
+const listParam = <T extends readonly [string, ...string[]]>(values: T, max: number) =>
+  z
+    .string()
+    .transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(values)).max(max));
+
+// Filters come in as `dimension:operator:value`; `in` takes values
+// separated by `|`.
+const filterParam = z
+  .string()
+  .transform((value) => {
+    const [dimension, operator, ...rest] = value.split(':');
+    return { dimension, operator, value: rest.join(':') };
+  })
+  .pipe(
+    z.object({
+      dimension: z.enum(DIMENSIONS),
+      operator: z.enum(FILTER_OPERATORS),
+      value: z.string().min(1, 'Filter value is required'),
+    })
+  );
+
+const reportSchema = z
+  .object({
+    metrics: listParam(METRICS, 10).refine((list) => list.length > 0, 'At least one metric is required'),
+    dimensions: listParam(DIMENSIONS, 4).default(''),
+    ...dateRangeFields,
+    filters: z.array(filterParam).max(5).default([]),
+    // A requested metric or dimension, prefixed with `-` for descending
+    orderBy: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(1000).default(100),
+  })
+  .superRefine(checkDateRange)
+  .superRefine((report, ctx) => {
+    const orderField = report.orderBy?.replace(/^-/, '');
+    if (
+      orderField &&
+      !(report.metrics as string[]).includes(orderField) &&
+      !(report.dimensions as string[]).includes(orderField)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['orderBy'],
+        message: 'orderBy must be one of the requested metrics or dimensions',
+      });
+    }
+  });
+
+type ReportQuery = z.infer<typeof reportSchema>;
+
+function toReportRequest(query: ReportQuery): ReportRequest {
+  const orderField = query.orderBy?.replace(/^-/, '');
+  const desc = query.orderBy?.startsWith('-') ?? false;
+
+  return {
+    dateRanges: [{ startDate: query.startDate, endDate: query.endDate }],
+    dimensions: query.dimensions.map((name) => ({ name })),
+    metrics: query.metrics.map((name) => ({ name })),
+    dimensionFilter: query.filters.length
+      ? {
+          andGroup: {
+            expressions: query.filters.map(({ dimension, operator, value }) => ({
+              filter: {
+                fieldName: dimension,
+                ...(operator === 'in'
+                  ? { inListFilter: { values: value.split('|') } }
+                  : {
+                      stringFilter: {
+                        matchType:
+                          operator === 'exact'
+                            ? 'EXACT'
+                            : operator === 'contains'
+                              ? 'CONTAINS'
+                              : 'BEGINS_WITH',
+                        value,
+                      },
+                    }),
+              },
+            })),
+          },
+        }
+      : undefined,
+    orderBys: orderField
+      ? [
+          (query.metrics as string[]).includes(orderField)
+            ? { metric: { metricName: orderField }, desc }
+            : { dimension: { dimensionName: orderField }, desc },
+        ]
+      : undefined,
+    limit: query.limit,
+  };
+}
+
+/**
+ * Runs an ad-hoc report against the caller's own GA4 property. The
+ * request is limited to whitelisted fields and rows come back keyed by
+ * field name, so a widget doesn't need a route of its own. It shares the
+ * dashboard's quota handling: a limited property gets cached rows
+ * flagged `limited`, or a 429 when there is nothing cached.
+ *
+ * GET /api/ga4/report?metrics=sessions&dimensions=city&orderBy=-sessions&limit=10
+ */
+export const GET = withSession(
+  { source: 'ga4', errorMessage: 'Failed to run analytics report' },
+  async (request, { tenant, sourceConfig }) => {
+    const { searchParams } = request.nextUrl;
+    const parsed = reportSchema.safeParse({
+      metrics: searchParams.get('metrics') ?? '',
+      dimensions: searchParams.get('dimensions') ?? undefined,
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+      filters: searchParams.getAll('filter'),
+      orderBy: searchParams.get('orderBy') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+    if (!parsed.success) {
+      throw new ApiError(400, 'Invalid report request', {
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      });
+    }
+
+    const query = parsed.data;
+    const reports = await runQuotaAwareReports(
+      createAnalyticsClient(),
+      `properties/${sourceConfig.propertyId}`,
+      { report: toReportRequest(query) },
+    );
+    const response = reports.responses.report;
+    if (!response) {
+      if (reports.limited) {
+        throw new ApiError(429, QUOTA_LIMITED_MESSAGE, { reason: 'quota_limited' });
+      }
+      throw new Error(`GA4 report failed: ${reports.errors.report}`);
+    }
+
+    const rows = (response.rows ?? []).map((row) => ({
+      dimensions: Object.fromEntries(
+        query.dimensions.map((name, index) => [name, row.dimensionValues?.[index]?.value ?? ''])
+      ),
+      metrics: Object.fromEntries(
+        query.metrics.map((name, index) => [name, Number(row.metricValues?.[index]?.value ?? 0)])
+      ),
+    }));
+
+    return NextResponse.json({
+      companyId: tenant.companyId,
+      companyName: tenant.name,
+      dateRange: { startDate: query.startDate, endDate: query.endDate },
+      dimensions: query.dimensions,
+      metrics: query.metrics,
+      rows,
+      rowCount: response.rowCount ?? rows.length,
+      limited: reports.limited,
+      cachedAt: reports.cachedAt,
+    });
+  },
+);
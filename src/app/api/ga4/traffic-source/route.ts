@@ -0,0 +1,137 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkDateRange, dateRangeFields } from '@/utils/dateRanges';
+import { QUOTA_LIMITED_MESSAGE } from '@/utils/ga4Quota';
+import {
+  createAnalyticsClient,
+  runQuotaAwareReports,
+  serverTimingHeader,
+} from '@/utils/ga4Reports';
+import { ApiError, withSession } from '@/utils/withSession';
+
+export const dynamic = 'force-dynamic';
+
+const querySchema = z
+  .object({
+    channel: z.string().trim().min(1, 'channel is required').max(100),
+    ...dateRangeFields,
+  })
+  .superRefine(checkDateRange);
+
+/**
+ * Drill-down for one default channel group from the Traffic Sources
+ * chart: how it performed, which source/mediums make it up and where
+ * its visitors landed.
+ */
+export const GET = withSession(
+  { source: 'ga4', errorMessage: 'Failed to fetch traffic source data' },
+  async (request, { tenant, sourceConfig }) => {
+    const { searchParams } = request.nextUrl;
+    const parsed = querySchema.safeParse({
+      channel: searchParams.get('channel') ?? '',
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+    });
+    if (!parsed.success) {
+      throw new ApiError(400, 'Invalid traffic source request', {
+        issues: parsed.error.issues.map((issue) => issue.message),
+      });
+    }
+    const { channel, startDate, endDate } = parsed.data;
+
+    const dateRanges = [{ startDate, endDate }];
+    const dimensionFilter = {
+      filter: {
+        fieldName: 'sessionDefaultChannelGroup',
+        stringFilter: { matchType: 'EXACT' as const, value: channel },
+      },
+    };
+    const engagementMetrics = [
+      { name: 'sessions' },
+      { name: 'engagementRate' },
+      { name: 'keyEvents' },
+    ];
+
+    const reports = await runQuotaAwareReports(
+      createAnalyticsClient(),
+      `properties/${sourceConfig.propertyId}`,
+      {
+        summary: {
+          dateRanges,
+          dimensionFilter,
+          metrics: [
+            { name: 'sessions' },
+            { name: 'engagedSessions' },
+            { name: 'engagementRate' },
+            { name: 'averageSessionDuration' },
+            { name: 'keyEvents' },
+          ],
+        },
+        sourceMedium: {
+          dateRanges,
+          dimensionFilter,
+          dimensions: [{ name: 'sessionSourceMedium' }],
+          metrics: engagementMetrics,
+          orderBys: [{ metric: { metricName: 'sessions' }, desc: true }],
+          limit: 15,
+        },
+        landingPages: {
+          dateRanges,
+          dimensionFilter,
+          dimensions: [{ name: 'landingPage' }],
+          metrics: engagementMetrics,
+          orderBys: [{ metric: { metricName: 'sessions' }, desc: true }],
+          limit: 15,
+        },
+      }
+    );
+    console.log('Traffic source report timings (ms):', reports.timings);
+
+    if (Object.keys(reports.responses).length === 0) {
+      if (reports.limited) {
+        throw new ApiError(429, QUOTA_LIMITED_MESSAGE, { reason: 'quota_limited' });
+      }
+      throw new Error(`All GA4 reports failed: ${Object.values(reports.errors)[0]}`);
+    }
+
+    const summaryRow = reports.responses.summary?.rows?.[0];
+    const summary = summaryRow ? {
+      sessions: parseInt(summaryRow.metricValues?.[0]?.value || '0'),
+      engagedSessions: parseInt(summaryRow.metricValues?.[1]?.value || '0'),
+      engagementRate: (parseFloat(summaryRow.metricValues?.[2]?.value || '0') * 100).toFixed(2),
+      avgSessionDuration: parseFloat(summaryRow.metricValues?.[3]?.value || '0'),
+      keyEvents: parseFloat(summaryRow.metricValues?.[4]?.value || '0'),
+    } : null;
+
+    const sourceMedium = reports.responses.sourceMedium?.rows?.map(row => ({
+      sourceMedium: row.dimensionValues?.[0]?.value || '(not set)',
+      sessions: parseInt(row.metricValues?.[0]?.value || '0'),
+      engagementRate: (parseFloat(row.metricValues?.[1]?.value || '0') * 100).toFixed(2),
+      keyEvents: parseFloat(row.metricValues?.[2]?.value || '0'),
+    })) || [];
+
+    const landingPages = reports.responses.landingPages?.rows?.map(row => ({
+      landingPage: row.dimensionValues?.[0]?.value || '(not set)',
+      sessions: parseInt(row.metricValues?.[0]?.value || '0'),
+      engagementRate: (parseFloat(row.metricValues?.[1]?.value || '0') * 100).toFixed(2),
+      keyEvents: parseFloat(row.metricValues?.[2]?.value || '0'),
+    })) || [];
+
+    return NextResponse.json({
+      companyId: tenant.companyId,
+      companyName: tenant.name,
+      channel,
+      dateRange: { startDate, endDate },
+      summary,
+      sourceMedium,
+      landingPages,
+      errors: reports.errors,
+      // Set when GA4 quota ran low; cachedAt says how old the data is
+      limited: reports.limited,
+      cachedAt: reports.cachedAt,
+      quota: reports.quota,
+    }, {
+      headers: { 'Server-Timing': serverTimingHeader(reports) },
+    });
+  },
+);
@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import { enums } from 'google-ads-api';
+import { z } from 'zod';
+import { checkDateRange, dateRangeFields, resolveDateRange } from '@/utils/dateRanges';
+import { buildGaqlQuery, type GaqlField } from '@/utils/gaql';
+import { createAdsCustomer, enumName, getAdsAccount, GOOGLE_ADS_ENV } from '@/utils/googleAds';
+import { ApiError, withSession } from '@/utils/withSession';
+
+export const dynamic = 'force-dynamic';
+
+const querySchema = z
+  .object({
+    campaignId: z.string().regex(/^\d{1,19}$/, 'campaignId must be a numeric campaign ID'),
+    ...dateRangeFields,
+  })
+  .superRefine(checkDateRange);
+
+const PERFORMANCE_FIELDS: GaqlField[] = [
+  'metrics.impressions',
+  'metrics.clicks',
+  'metrics.ctr',
+  'metrics.cost_micros',
+  'metrics.conversions',
+  'metrics.average_cpc',
+];
+
+/**
+ * Drill-down for one campaign from the Ads section: its ad groups, its
+ * keywords with quality score and top-of-page rates (the Ads API no
+ * longer reports average position), and the search terms that triggered
+ * its ads. Every query is filtered to the campaign inside the tenant's
+ * own customer account, so another account's campaign ID finds nothing.
+ */
+export const GET = withSession(
+  {
+    source: 'googleAds',
+    env: GOOGLE_ADS_ENV,
+    errorMessage: 'Failed to fetch Google Ads campaign data',
+  },
+  async (request, { tenant, sourceConfig: customerConfig, sections }) => {
+    const { searchParams } = request.nextUrl;
+    const parsed = querySchema.safeParse({
+      campaignId: searchParams.get('campaignId') ?? '',
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+    });
+    if (!parsed.success) {
+      throw new ApiError(400, 'Invalid campaign request', {
+        issues: parsed.error.issues.map((issue) => issue.message),
+      });
+    }
+    const { campaignId, startDate, endDate } = parsed.data;
+    const inCampaign = { field: 'campaign.id', op: '=', value: BigInt(campaignId) } as const;
+
+    const customer = createAdsCustomer(customerConfig.customerId);
+    const account = await getAdsAccount(customer, customerConfig.customerId);
+    const dateRange = resolveDateRange({ startDate, endDate }, account.timeZone);
+
+    const [campaigns, performanceRows, adGroupRows, keywordRows, searchTermRows] = await Promise.all([
+      // No date segment, so a campaign with no activity in the range is
+      // still found; Ads leaves zero-metric rows out of dated queries
+      customer.query(buildGaqlQuery({
+        select: ['campaign.id', 'campaign.name', 'campaign.status'],
+        from: 'campaign',
+        where: [inCampaign],
+      })),
+      customer.query(buildGaqlQuery({
+        select: ['campaign.id', ...PERFORMANCE_FIELDS],
+        from: 'campaign',
+        dateRange,
+        where: [inCampaign],
+      })),
+      customer.query(buildGaqlQuery({
+        select: ['ad_group.id', 'ad_group.name', 'ad_group.status', ...PERFORMANCE_FIELDS],
+        from: 'ad_group',
+        dateRange,
+        where: [inCampaign, { field: 'ad_group.status', op: '!=', value: 'REMOVED' }],
+        orderBy: [{ field: 'metrics.clicks', desc: true }],
+        limit: 50,
+      })),
+      customer.query(buildGaqlQuery({
+        select: [
+          'ad_group.name',
+          'ad_group_criterion.criterion_id',
+          'ad_group_criterion.keyword.text',
+          'ad_group_criterion.keyword.match_type',
+          'ad_group_criterion.quality_info.quality_score',
+          'metrics.top_impression_percentage',
+          'metrics.absolute_top_impression_percentage',
+          ...PERFORMANCE_FIELDS,
+        ],
+        from: 'keyword_view',
+        dateRange,
+        where: [inCampaign, { field: 'ad_group_criterion.status', op: '!=', value: 'REMOVED' }],
+        orderBy: [{ field: 'metrics.clicks', desc: true }],
+        limit: 100,
+      })),
+      customer.query(buildGaqlQuery({
+        select: [
+          'ad_group.name',
+          'search_term_view.search_term',
+          'search_term_view.status',
+          ...PERFORMANCE_FIELDS,
+        ],
+        from: 'search_term_view',
+        dateRange,
+        where: [inCampaign],
+        orderBy: [{ field: 'metrics.clicks', desc: true }],
+        limit: 100,
+      })),
+    ]);
+
+    if (campaigns.length === 0) {
+      throw new ApiError(404, 'Campaign not found for this account', { campaignId });
+    }
+
+    // Spend stays out of the response for users the tenant hides it from
+    const showCost = sections.adsCost;
+    const parsePerformance = (row: any) => ({
+      impressions: Number(row.metrics?.impressions || 0),
+      clicks: Number(row.metrics?.clicks || 0),
+      ctr: Number(row.metrics?.ctr || 0) * 100,
+      conversions: Number(row.metrics?.conversions || 0),
+      ...(showCost && {
+        cost: Number(row.metrics?.cost_micros || 0) / 1000000,
+        averageCpc: Number(row.metrics?.average_cpc || 0) / 1000000,
+      }),
+    });
+
+    const [campaignRow] = campaigns as any[];
+    const campaign = {
+      id: String(campaignRow.campaign?.id ?? campaignId),
+      name: campaignRow.campaign?.name || 'Unknown Campaign',
+      status: enumName(enums.CampaignStatus, campaignRow.campaign?.status),
+      ...parsePerformance(performanceRows[0] ?? {}),
+    };
+
+    const adGroups = adGroupRows.map((row: any) => ({
+      id: String(row.ad_group?.id ?? ''),
+      name: row.ad_group?.name || 'Unknown Ad Group',
+      status: enumName(enums.AdGroupStatus, row.ad_group?.status),
+      ...parsePerformance(row),
+    }));
+
+    const keywords = keywordRows.map((row: any) => ({
+      id: String(row.ad_group_criterion?.criterion_id ?? ''),
+      adGroup: row.ad_group?.name || '',
+      text: row.ad_group_criterion?.keyword?.text || '',
+      matchType: enumName(enums.KeywordMatchType, row.ad_group_criterion?.keyword?.match_type),
+      // Ads leaves quality score unset until a keyword has enough traffic
+      qualityScore: row.ad_group_criterion?.quality_info?.quality_score || null,
+      topImpressionRate: Number(row.metrics?.top_impression_percentage || 0) * 100,
+      absoluteTopImpressionRate: Number(row.metrics?.absolute_top_impression_percentage || 0) * 100,
+      ...parsePerformance(row),
+    }));
+
+    const searchTerms = searchTermRows.map((row: any) => ({
+      searchTerm: row.search_term_view?.search_term || '',
+      adGroup: row.ad_group?.name || '',
+      status: enumName(enums.SearchTermTargetingStatus, row.search_term_view?.status),
+      ...parsePerformance(row),
+    }));
+
+    return NextResponse.json({
+      companyId: tenant.companyId,
+      companyName: tenant.name,
+      customerId: customerConfig.customerId,
+      currencyCode: account.currencyCode,
+      dateRange,
+      campaign,
+      adGroups,
+      keywords,
+      searchTerms,
+    });
+  },
+);
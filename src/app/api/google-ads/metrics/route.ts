@@ -1,169 +1,157 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { GoogleAdsApi } from 'google-ads-api';
-import { copilotApi } from 'copilot-node-sdk';
+import { NextResponse } from 'next/server';
+import { enums } from 'google-ads-api';
+import {
+  comparisonModes,
+  comparisonRange,
+  granularityOptions,
+  isComparisonMode,
+  isGranularityOption,
+  resolveDate,
+  resolveDateRange,
+  resolveGranularity,
+  type DateRange,
+} from '@/utils/dateRanges';
+import { buildGaqlQuery, type GaqlField } from '@/utils/gaql';
+import { createAdsCustomer, enumName, getAdsAccount, GOOGLE_ADS_ENV } from '@/utils/googleAds';
+import { ApiError, parseDateRange, withSession } from '@/utils/withSession';
 
 export const dynamic = 'force-dynamic';
 
-// Map company IDs to their Google Ads Customer IDs and names
-const CUSTOMER_MAPPING: Record<string, { customerId: string; name: string; hasGoogleAds: boolean }> = {
-//  'default': { customerId: '7116961973', name: 'Straight Line', hasGoogleAds: true },
-  'default': { customerId: '1196391424', name: 'Art Unlimited', hasGoogleAds: false },
-  '7d52dc8e-c603-4c7e-ad27-60c15a86c12f': { customerId: '1196391424', name: 'Art Unlimited', hasGoogleAds: false },
-  'fdb96a2c-a6ad-4238-9747-06b3ce7e8840': { customerId: '9499823115', name: 'Alans Roofing', hasGoogleAds: true },
-  '61e7c938-fd52-4693-b79b-c2fb2349b61d': { customerId: '7116961973', name: 'Straight Line', hasGoogleAds: true },
-  'de381a8e-db60-447f-9114-418d874f087b': { customerId: '8289173629', name: 'Bill West Roofing', hasGoogleAds: true },
-};
-
-export async function GET(request: NextRequest) {
-  try {
-    const token = request.nextUrl.searchParams.get('token');
-    const startDate = request.nextUrl.searchParams.get('startDate') || '30daysAgo';
-    const endDate = request.nextUrl.searchParams.get('endDate') || 'today';
-    
-    if (!token) {
-      return NextResponse.json({ error: 'No token provided' }, { status: 401 });
-    }
-
-    // Check environment variables
-    const requiredEnvVars = {
-      clientId: process.env.GOOGLE_ADS_CLIENT_ID,
-      clientSecret: process.env.GOOGLE_ADS_CLIENT_SECRET,
-      developerToken: process.env.GOOGLE_ADS_DEVELOPER_TOKEN,
-      refreshToken: process.env.GOOGLE_ADS_REFRESH_TOKEN,
-      copilotApiKey: process.env.COPILOT_API_KEY,
-    };
-
-    const missingVars = Object.entries(requiredEnvVars)
-      .filter(([_, value]) => !value)
-      .map(([key]) => key);
-
-    if (missingVars.length > 0) {
-      console.error('Missing environment variables:', missingVars);
-      return NextResponse.json(
-        { error: 'Server configuration error', missing: missingVars },
-        { status: 500 }
-      );
-    }
-
-    // Initialize Copilot API
-    console.log('Initializing Copilot API...');
-    const copilot = copilotApi({
-      apiKey: process.env.COPILOT_API_KEY ?? '',
-      token: token,
-    });
-
-    let companyId = 'default';
-    try {
-      const session = await copilot.getTokenPayload?.();
-      companyId = session?.companyId || 'default';
-      console.log('Company ID:', companyId);
-    } catch (copilotError) {
-      console.error('Copilot API error:', copilotError);
-      // Continue with default if Copilot fails
-    }
+/** Ads can spend up to this many daily budgets in a calendar month. */
+const MONTHLY_BUDGET_DAYS = 30.4;
 
-    const customerConfig = CUSTOMER_MAPPING[companyId] || CUSTOMER_MAPPING['default'];
+export const GET = withSession(
+  {
+    source: 'googleAds',
+    env: GOOGLE_ADS_ENV,
+    errorMessage: 'Failed to fetch Google Ads data',
+    // Not running ads is a normal state for a client, not an error
+    sourceUnavailable: (tenant) =>
+      NextResponse.json({
+        companyId: tenant.companyId,
+        companyName: tenant.name,
+        hasGoogleAds: false,
+        message: `${tenant.name} isn't running Google Ads campaigns yet`,
+      }),
+  },
+  async (request, { tenant, sourceConfig: customerConfig, sections }) => {
+    const requestedRange = parseDateRange(request.nextUrl.searchParams);
+    const compareParam = request.nextUrl.searchParams.get('compare');
+    const granularityParam = request.nextUrl.searchParams.get('granularity') || 'auto';
+    const companyId = tenant.companyId;
+    console.log('Company ID:', companyId);
     console.log('Using customer config:', customerConfig);
 
-    // Initialize Google Ads API client
-    console.log('Initializing Google Ads API client...');
-    let client;
-    try {
-      client = new GoogleAdsApi({
-        client_id: process.env.GOOGLE_ADS_CLIENT_ID ?? '',
-        client_secret: process.env.GOOGLE_ADS_CLIENT_SECRET ?? '',
-        developer_token: process.env.GOOGLE_ADS_DEVELOPER_TOKEN ?? '',
+    if (compareParam && !isComparisonMode(compareParam)) {
+      throw new ApiError(400, `Unknown comparison "${compareParam}"`, {
+        allowed: comparisonModes,
       });
-      console.log('Google Ads API client initialized successfully');
-    } catch (clientError: any) {
-      console.error('Failed to initialize Google Ads API client:', clientError);
-      return NextResponse.json(
-        { error: 'Failed to initialize Google Ads client', details: clientError.message },
-        { status: 500 }
-      );
     }
-
-    // Get customer instance
-    console.log('Creating customer instance...');
-    let customer;
-    try {
-      customer = client.Customer({
-        customer_id: customerConfig.customerId,
-        refresh_token: process.env.GOOGLE_ADS_REFRESH_TOKEN ?? '',
-        login_customer_id: process.env.GOOGLE_ADS_LOGIN_CUSTOMER_ID ?? undefined,
+    const compare = isComparisonMode(compareParam) ? compareParam : undefined;
+    if (!isGranularityOption(granularityParam)) {
+      throw new ApiError(400, `Unknown granularity "${granularityParam}"`, {
+        allowed: granularityOptions,
       });
-      console.log('Customer instance created for ID:', customerConfig.customerId);
-      console.log('Using login customer ID:', process.env.GOOGLE_ADS_LOGIN_CUSTOMER_ID);
-    } catch (customerError: any) {
-      console.error('Failed to create customer instance:', customerError);
-      return NextResponse.json(
-        { error: 'Failed to create customer instance', details: customerError.message },
-        { status: 500 }
-      );
     }
+    const granularity = resolveGranularity(granularityParam, requestedRange);
+    // segments.week and segments.month come back as the bucket's first day
+    const timeSegment: GaqlField = granularity === 'day' ? 'segments.date' : `segments.${granularity}`;
 
-    // Convert date range to YYYY-MM-DD format
-    const formatDate = (dateStr: string): string => {
-      if (dateStr === 'today') {
-        return new Date().toISOString().split('T')[0];
-      } else if (dateStr === 'yesterday') {
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-        return yesterday.toISOString().split('T')[0];
-      } else if (dateStr.includes('daysAgo')) {
-        const days = parseInt(dateStr.replace('daysAgo', ''));
-        const date = new Date();
-        date.setDate(date.getDate() - days);
-        return date.toISOString().split('T')[0];
-      }
-      return dateStr;
-    };
+    const customer = createAdsCustomer(customerConfig.customerId);
 
-    const formattedStartDate = formatDate(startDate).replace(/-/g, '');
-    const formattedEndDate = formatDate(endDate).replace(/-/g, '');
-    console.log('Date range:', formattedStartDate, 'to', formattedEndDate);
+    // Money comes back in the account's currency and "today" is the
+    // account's today, so both are needed before anything is queried
+    const account = await getAdsAccount(customer, customerConfig.customerId);
+    const dateRange = resolveDateRange(requestedRange, account.timeZone);
+    console.log('Date range:', dateRange.startDate, 'to', dateRange.endDate, `(${account.timeZone})`);
+    const previousRange = compare
+      ? comparisonRange(dateRange, compare)
+      : null;
 
     // Query for campaign performance
-    const campaignQuery = `
-      SELECT
-        campaign.id,
-        campaign.name,
-        campaign.status,
-        metrics.impressions,
-        metrics.clicks,
-        metrics.ctr,
-        metrics.cost_micros,
-        metrics.conversions,
-        metrics.conversions_value
-      FROM campaign
-      WHERE segments.date BETWEEN '${formattedStartDate}' AND '${formattedEndDate}'
-        AND campaign.status != 'REMOVED'
-      ORDER BY metrics.impressions DESC
-      LIMIT 10
-    `;
+    const campaignQuery = buildGaqlQuery({
+      select: [
+        'campaign.id',
+        'campaign.name',
+        'campaign.status',
+        'metrics.impressions',
+        'metrics.clicks',
+        'metrics.ctr',
+        'metrics.cost_micros',
+        'metrics.conversions',
+        'metrics.conversions_value',
+      ],
+      from: 'campaign',
+      dateRange,
+      where: [{ field: 'campaign.status', op: '!=', value: 'REMOVED' }],
+      orderBy: [{ field: 'metrics.impressions', desc: true }],
+      limit: 10,
+    });
 
     // Query for overall metrics
-    const metricsQuery = `
-      SELECT
-        metrics.impressions,
-        metrics.clicks,
-        metrics.ctr,
-        metrics.cost_micros,
-        metrics.conversions,
-        metrics.conversions_value,
-        metrics.average_cpc
-      FROM customer
-      WHERE segments.date BETWEEN '${formattedStartDate}' AND '${formattedEndDate}'
-    `;
+    const metricsQueryFor = (range: DateRange) => buildGaqlQuery({
+      select: [
+        'metrics.impressions',
+        'metrics.clicks',
+        'metrics.ctr',
+        'metrics.cost_micros',
+        'metrics.conversions',
+        'metrics.conversions_value',
+        'metrics.average_cpc',
+      ],
+      from: 'customer',
+      dateRange: range,
+    });
+
+    // Query for metrics over time
+    const timeSeriesQuery = buildGaqlQuery({
+      select: [
+        timeSegment,
+        'metrics.impressions',
+        'metrics.clicks',
+        'metrics.cost_micros',
+        'metrics.conversions',
+      ],
+      from: 'customer',
+      dateRange,
+      orderBy: [{ field: timeSegment }],
+    });
+
+    // Month-to-date spend against each live campaign's budget, whatever
+    // range is selected. DURING THIS_MONTH follows the account's time zone.
+    // Campaigns paused since still count towards what was spent.
+    const pacingQuery = buildGaqlQuery({
+      select: [
+        'campaign.id',
+        'campaign.name',
+        'campaign.status',
+        'campaign_budget.resource_name',
+        'campaign_budget.amount_micros',
+        'campaign_budget.period',
+        'campaign_budget.explicitly_shared',
+        'metrics.cost_micros',
+      ],
+      from: 'campaign',
+      during: 'THIS_MONTH',
+      where: [{ field: 'campaign.status', op: '!=', value: 'REMOVED' }],
+      orderBy: [{ field: 'metrics.cost_micros', desc: true }],
+    });
 
     // Fetch data with detailed error handling
     console.log('Fetching Google Ads data...');
-    let campaigns, overallMetrics;
+    let campaigns, overallMetrics, timeSeriesRows, previousMetrics, pacingRows;
     
     try {
-      [campaigns, overallMetrics] = await Promise.all([
+      [campaigns, overallMetrics, timeSeriesRows, previousMetrics, pacingRows] = await Promise.all([
         customer.query(campaignQuery),
-        customer.query(metricsQuery),
+        customer.query(metricsQueryFor(dateRange)),
+        customer.query(timeSeriesQuery),
+        // Same totals for the comparison window, when one was asked for
+        previousRange
+          ? customer.query(metricsQueryFor(previousRange))
+          : Promise.resolve(null),
+        // Pacing is all spend, so only for users who may see cost
+        sections.adsCost ? customer.query(pacingQuery) : Promise.resolve(null),
       ]);
       console.log('Data fetched successfully');
       console.log('Campaigns count:', campaigns?.length || 0);
@@ -183,22 +171,29 @@ export async function GET(request: NextRequest) {
           details: queryError.message,
           errorType: queryError.name,
           customerId: customerConfig.customerId,
-          dateRange: { formattedStartDate, formattedEndDate }
+          dateRange
         },
         { status: 500 }
       );
     }
 
+    // Spend is left out of the response, not just the UI, for users the
+    // tenant doesn't show it to
+    const showCost = sections.adsCost;
+
     // Parse overall metrics
-    const metrics = overallMetrics[0] ? {
-      impressions: Number(overallMetrics[0].metrics?.impressions || 0),
-      clicks: Number(overallMetrics[0].metrics?.clicks || 0),
-      ctr: Number(overallMetrics[0].metrics?.ctr || 0) * 100,
-      cost: Number(overallMetrics[0].metrics?.cost_micros || 0) / 1000000,
-      conversions: Number(overallMetrics[0].metrics?.conversions || 0),
-      conversionsValue: Number(overallMetrics[0].metrics?.conversions_value || 0),
-      averageCpc: Number(overallMetrics[0].metrics?.average_cpc || 0) / 1000000,
+    const parseTotals = (row: any) => row ? {
+      impressions: Number(row.metrics?.impressions || 0),
+      clicks: Number(row.metrics?.clicks || 0),
+      ctr: Number(row.metrics?.ctr || 0) * 100,
+      conversions: Number(row.metrics?.conversions || 0),
+      conversionsValue: Number(row.metrics?.conversions_value || 0),
+      ...(showCost && {
+        cost: Number(row.metrics?.cost_micros || 0) / 1000000,
+        averageCpc: Number(row.metrics?.average_cpc || 0) / 1000000,
+      }),
     } : null;
+    const metrics = parseTotals(overallMetrics[0]);
 
     // Parse campaign data
     const campaignData = campaigns.map((row: any) => ({
@@ -208,31 +203,97 @@ export async function GET(request: NextRequest) {
       impressions: Number(row.metrics?.impressions || 0),
       clicks: Number(row.metrics?.clicks || 0),
       ctr: Number(row.metrics?.ctr || 0) * 100,
-      cost: Number(row.metrics?.cost_micros || 0) / 1000000,
       conversions: Number(row.metrics?.conversions || 0),
       conversionsValue: Number(row.metrics?.conversions_value || 0),
+      ...(showCost && { cost: Number(row.metrics?.cost_micros || 0) / 1000000 }),
     }));
 
+    // Parse time series
+    const timeSeries = timeSeriesRows.map((row: any) => ({
+      date: (granularity === 'day' ? row.segments?.date : row.segments?.[granularity]) || '',
+      impressions: Number(row.metrics?.impressions || 0),
+      clicks: Number(row.metrics?.clicks || 0),
+      conversions: Number(row.metrics?.conversions || 0),
+      ...(showCost && { cost: Number(row.metrics?.cost_micros || 0) / 1000000 }),
+    }));
+
+    // Budget pacing, projecting the month from its average daily spend so far
+    let pacing = null;
+    if (pacingRows) {
+      // Day of the month in the account's time zone, as THIS_MONTH uses
+      const today = resolveDate('today', new Date(), account.timeZone);
+      const daysElapsed = Number(today.substring(8, 10));
+      const daysInMonth = new Date(Date.UTC(Number(today.substring(0, 4)), Number(today.substring(5, 7)), 0)).getUTCDate();
+      const project = (spend: number) => (spend / daysElapsed) * daysInMonth;
+
+      const pacingCampaigns = pacingRows.map((row: any) => {
+        const spend = Number(row.metrics?.cost_micros || 0) / 1000000;
+        // A paused campaign spends nothing more, so its budget doesn't apply
+        const paused = enumName(enums.CampaignStatus, row.campaign?.status) !== 'ENABLED';
+        // Campaign-total budgets (custom periods) don't pace by month
+        const isDaily = enumName(enums.BudgetPeriod, row.campaign_budget?.period) === 'DAILY';
+        const monthlyBudget = isDaily && !paused
+          ? (Number(row.campaign_budget?.amount_micros || 0) / 1000000) * MONTHLY_BUDGET_DAYS
+          : null;
+        const projectedSpend = paused ? spend : project(spend);
+        return {
+          id: String(row.campaign?.id ?? ''),
+          name: row.campaign?.name || 'Unknown Campaign',
+          paused,
+          budgetId: row.campaign_budget?.resource_name || null,
+          sharedBudget: Boolean(row.campaign_budget?.explicitly_shared),
+          monthlyBudget,
+          spend,
+          projectedSpend,
+          pace: monthlyBudget ? projectedSpend / monthlyBudget : null,
+        };
+      });
+
+      // The account pace only covers campaigns with a monthly budget, so
+      // spend and budget add up over the same campaigns; what paused and
+      // campaign-total budget campaigns spent is reported on its own. A
+      // shared budget covers several campaigns but only counts once.
+      const budgeted = pacingCampaigns.filter((campaign) => campaign.monthlyBudget !== null);
+      const unbudgeted = pacingCampaigns.filter((campaign) => campaign.monthlyBudget === null);
+      const budgets = new Map<string, number>();
+      for (const campaign of budgeted) {
+        if (campaign.budgetId) budgets.set(campaign.budgetId, campaign.monthlyBudget!);
+      }
+      const totalBudget = Array.from(budgets.values()).reduce((sum, amount) => sum + amount, 0);
+      const totalSpend = budgeted.reduce((sum, campaign) => sum + campaign.spend, 0);
+      const totalProjected = budgeted.reduce((sum, campaign) => sum + campaign.projectedSpend, 0);
+
+      pacing = {
+        month: today.substring(0, 7),
+        daysElapsed,
+        daysInMonth,
+        spend: totalSpend,
+        monthlyBudget: totalBudget,
+        projectedSpend: totalProjected,
+        pace: totalBudget > 0 ? totalProjected / totalBudget : null,
+        unbudgetedSpend: unbudgeted.reduce((sum, campaign) => sum + campaign.spend, 0),
+        campaigns: pacingCampaigns,
+      };
+    }
+
     console.log('Successfully processed data, returning response');
     return NextResponse.json({
       companyId,
-      companyName: customerConfig.name,
+      companyName: tenant.name,
       customerId: customerConfig.customerId,
-      dateRange: { startDate, endDate },
+      currencyCode: account.currencyCode,
+      timeZone: account.timeZone,
+      dateRange,
+      granularity,
+      comparison: compare && previousRange ? {
+        mode: compare,
+        dateRange: previousRange,
+        metrics: parseTotals(previousMetrics?.[0]),
+      } : null,
       metrics,
+      timeSeries,
       campaigns: campaignData,
+      pacing,
     });
-
-  } catch (error: any) {
-    console.error('Unexpected error in Google Ads API route:', error);
-    console.error('Error stack:', error.stack);
-    return NextResponse.json(
-      { 
-        error: 'Failed to fetch Google Ads data',
-        details: error.message,
-        errorType: error.name || 'Unknown',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+);
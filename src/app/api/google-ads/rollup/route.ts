@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { appendAuditRecord, outcomeForStatus } from '@/utils/audit';
+import { canAccessCompany } from '@/utils/companies';
+import { resolveDateRange } from '@/utils/dateRanges';
+import { buildGaqlQuery } from '@/utils/gaql';
+import { createAdsCustomer, getAdsAccount, GOOGLE_ADS_ENV } from '@/utils/googleAds';
+import { getTenantRegistry, getTenantSource } from '@/utils/tenants';
+import { parseDateRange, withSession } from '@/utils/withSession';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Agency-wide Ads totals: one row per client with Google Ads mapped and
+ * enabled, all queried in parallel through the manager account. A client
+ * whose query fails gets its error on its own row rather than failing
+ * the rollup, since one revoked link shouldn't hide every other account.
+ * Each account's dates follow its own time zone, and totals are kept per
+ * currency rather than adding up dollars and euros.
+ *
+ * Only clients the internal user may view in Copilot are included, and
+ * since the route has no single tenant `source` for withSession to audit,
+ * it writes one audit record per client whose data it returns.
+ */
+export const GET = withSession(
+  {
+    internalOnly: true,
+    env: GOOGLE_ADS_ENV,
+    errorMessage: 'Failed to fetch Google Ads rollup',
+  },
+  async (request, { internalUser, userId, userType }) => {
+    const dateRange = parseDateRange(request.nextUrl.searchParams);
+
+    const accounts = getTenantRegistry().tenants.flatMap((tenant) => {
+      const config = getTenantSource(tenant, 'googleAds');
+      if (!config || (internalUser && !canAccessCompany(internalUser, tenant.companyId))) {
+        return [];
+      }
+      return [{ tenant, customerId: config.customerId }];
+    });
+
+    const results = await Promise.allSettled(
+      accounts.map(async ({ customerId }) => {
+        const customer = createAdsCustomer(customerId);
+        const account = await getAdsAccount(customer, customerId);
+        const rows = await customer.query(buildGaqlQuery({
+          select: ['metrics.impressions', 'metrics.clicks', 'metrics.cost_micros', 'metrics.conversions'],
+          from: 'customer',
+          dateRange: resolveDateRange(dateRange, account.timeZone),
+        }));
+        return { account, rows };
+      }),
+    );
+
+    const clients = accounts.map(({ tenant, customerId }, i) => {
+      const account = { companyId: tenant.companyId, companyName: tenant.name, customerId };
+      const result = results[i];
+      if (result.status === 'rejected') {
+        console.error(`Google Ads rollup failed for ${customerId}:`, result.reason);
+        return {
+          ...account,
+          currencyCode: null,
+          impressions: 0,
+          clicks: 0,
+          cost: 0,
+          conversions: 0,
+          cpa: null,
+          error: result.reason?.errors?.[0]?.message || result.reason?.message || 'Query failed',
+        };
+      }
+
+      // Without segments the customer resource comes back as one row
+      const [row] = result.value.rows as any[];
+      const cost = Number(row?.metrics?.cost_micros || 0) / 1000000;
+      const conversions = Number(row?.metrics?.conversions || 0);
+      return {
+        ...account,
+        currencyCode: result.value.account.currencyCode,
+        impressions: Number(row?.metrics?.impressions || 0),
+        clicks: Number(row?.metrics?.clicks || 0),
+        cost,
+        conversions,
+        cpa: conversions > 0 ? cost / conversions : null,
+        error: null,
+      };
+    });
+
+    // A failed write is logged but never fails the rollup, as in withSession
+    await Promise.all(
+      clients.map((client) =>
+        appendAuditRecord({
+          timestamp: new Date().toISOString(),
+          userId,
+          userType,
+          companyId: client.companyId,
+          companyName: client.companyName,
+          source: 'googleAds',
+          path: request.nextUrl.pathname,
+          dateRange,
+          outcome: outcomeForStatus(client.error ? 500 : 200),
+          status: client.error ? 500 : 200,
+        }).catch((error) => console.error('Failed to write audit record:', error)),
+      ),
+    );
+
+    const byCurrency = new Map<string, { clients: number; impressions: number; clicks: number; cost: number; conversions: number }>();
+    for (const client of clients) {
+      if (!client.currencyCode) continue;
+      const sum = byCurrency.get(client.currencyCode) ?? { clients: 0, impressions: 0, clicks: 0, cost: 0, conversions: 0 };
+      byCurrency.set(client.currencyCode, {
+        clients: sum.clients + 1,
+        impressions: sum.impressions + client.impressions,
+        clicks: sum.clicks + client.clicks,
+        cost: sum.cost + client.cost,
+        conversions: sum.conversions + client.conversions,
+      });
+    }
+
+    return NextResponse.json({
+      dateRange,
+      clients,
+      totals: Array.from(byCurrency.entries()).map(([currencyCode, sum]) => ({
+        currencyCode,
+        ...sum,
+        cpa: sum.conversions > 0 ? sum.cost / sum.conversions : null,
+      })),
+      failed: clients.filter((client) => client.error).length,
+    });
+  },
+);
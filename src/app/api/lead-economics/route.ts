@@ -0,0 +1,252 @@
+import { NextResponse } from 'next/server';
+import { enums } from 'google-ads-api';
+import {
+  bucketStart,
+  granularityOptions,
+  isGranularityOption,
+  resolveDateRange,
+  resolveGranularity,
+} from '@/utils/dateRanges';
+import { buildGaqlQuery } from '@/utils/gaql';
+import { QUOTA_LIMITED_MESSAGE } from '@/utils/ga4Quota';
+import { createAnalyticsClient, runQuotaAwareReports } from '@/utils/ga4Reports';
+import { createAdsCustomer, enumName, getAdsAccount, GOOGLE_ADS_ENV } from '@/utils/googleAds';
+import { getTenantSource } from '@/utils/tenants';
+import { ApiError, parseDateRange, withSession } from '@/utils/withSession';
+
+export const dynamic = 'force-dynamic';
+
+/** GA4 source / medium of auto-tagged Google Ads traffic. */
+const GOOGLE_ADS_SOURCE_MEDIUM = 'google / cpc';
+
+/** The GA4 default channel each Ads campaign type's traffic lands in. */
+const CHANNEL_FOR_CAMPAIGN_TYPE: Record<string, string> = {
+  SEARCH: 'Paid Search',
+  DISPLAY: 'Display',
+  SHOPPING: 'Paid Shopping',
+  VIDEO: 'Paid Video',
+  DEMAND_GEN: 'Cross-network',
+  PERFORMANCE_MAX: 'Cross-network',
+  SMART: 'Cross-network',
+};
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? numerator / denominator : null;
+
+/**
+ * What leads cost: Ads spend joined with the GA4 key events its clicks
+ * went on to trigger, overall, per GA4 channel, per campaign and over
+ * time. Leads are GA4 key events from google / cpc sessions, matched to
+ * campaigns by the campaign ID auto-tagging records. Without GA4 (or
+ * with analytics hidden from this user) only the Ads side is filled in.
+ */
+export const GET = withSession(
+  {
+    source: 'googleAds',
+    env: GOOGLE_ADS_ENV,
+    errorMessage: 'Failed to fetch lead economics',
+    sourceUnavailable: (tenant) =>
+      NextResponse.json({
+        companyId: tenant.companyId,
+        companyName: tenant.name,
+        hasGoogleAds: false,
+        message: `${tenant.name} isn't running Google Ads campaigns yet`,
+      }),
+  },
+  async (request, { tenant, sourceConfig: customerConfig, sections }) => {
+    // Every number here is derived from spend
+    if (!sections.adsCost) {
+      throw new ApiError(403, 'Ad spend is not available to your account', {
+        reason: 'section_hidden',
+        section: 'adsCost',
+      });
+    }
+
+    const dateRange = parseDateRange(request.nextUrl.searchParams);
+    const granularityParam = request.nextUrl.searchParams.get('granularity') || 'auto';
+    if (!isGranularityOption(granularityParam)) {
+      throw new ApiError(400, `Unknown granularity "${granularityParam}"`, {
+        allowed: granularityOptions,
+      });
+    }
+    const granularity = resolveGranularity(granularityParam, dateRange);
+    const ga4Config = sections.analytics ? getTenantSource(tenant, 'ga4') : undefined;
+
+    const customer = createAdsCustomer(customerConfig.customerId);
+    const account = await getAdsAccount(customer, customerConfig.customerId);
+    // GA4 resolves relative dates in the property's time zone itself
+    const adsRange = resolveDateRange(dateRange, account.timeZone);
+    const [campaignRows, dailyRows, reports] = await Promise.all([
+      customer.query(buildGaqlQuery({
+        select: [
+          'campaign.id',
+          'campaign.name',
+          'campaign.advertising_channel_type',
+          'metrics.cost_micros',
+          'metrics.clicks',
+          'metrics.conversions',
+          'metrics.conversions_value',
+        ],
+        from: 'campaign',
+        dateRange: adsRange,
+        where: [{ field: 'campaign.status', op: '!=', value: 'REMOVED' }],
+        orderBy: [{ field: 'metrics.cost_micros', desc: true }],
+      })),
+      customer.query(buildGaqlQuery({
+        select: ['segments.date', 'metrics.cost_micros', 'metrics.conversions', 'metrics.conversions_value'],
+        from: 'customer',
+        dateRange: adsRange,
+        orderBy: [{ field: 'segments.date' }],
+      })),
+      ga4Config
+        ? runQuotaAwareReports(createAnalyticsClient(), `properties/${ga4Config.propertyId}`, {
+            channels: {
+              dateRanges: [dateRange],
+              dimensions: [{ name: 'sessionDefaultChannelGroup' }],
+              metrics: [{ name: 'sessions' }, { name: 'keyEvents' }],
+              orderBys: [{ metric: { metricName: 'keyEvents' }, desc: true }],
+            },
+            campaigns: {
+              dateRanges: [dateRange],
+              dimensions: [{ name: 'sessionCampaignId' }],
+              metrics: [{ name: 'keyEvents' }],
+              dimensionFilter: {
+                filter: {
+                  fieldName: 'sessionSourceMedium',
+                  stringFilter: { matchType: 'EXACT', value: GOOGLE_ADS_SOURCE_MEDIUM },
+                },
+              },
+              limit: 1000,
+            },
+            trend: {
+              dateRanges: [dateRange],
+              dimensions: [{ name: 'date' }],
+              metrics: [{ name: 'keyEvents' }],
+              dimensionFilter: {
+                filter: {
+                  fieldName: 'sessionSourceMedium',
+                  stringFilter: { matchType: 'EXACT', value: GOOGLE_ADS_SOURCE_MEDIUM },
+                },
+              },
+            },
+          })
+        : Promise.resolve(null),
+    ]);
+
+    if (reports && Object.keys(reports.responses).length === 0) {
+      if (reports.limited) {
+        throw new ApiError(429, QUOTA_LIMITED_MESSAGE, { reason: 'quota_limited' });
+      }
+      throw new Error(`All GA4 reports failed: ${Object.values(reports.errors)[0]}`);
+    }
+    const hasLeads = !!reports;
+
+    // GA4 leads per Ads campaign ID
+    const leadsByCampaign = new Map<string, number>();
+    for (const row of reports?.responses.campaigns?.rows ?? []) {
+      leadsByCampaign.set(row.dimensionValues?.[0]?.value || '', parseFloat(row.metricValues?.[0]?.value || '0'));
+    }
+
+    const campaigns = campaignRows.map((row: any) => {
+      const id = String(row.campaign?.id ?? '');
+      const cost = Number(row.metrics?.cost_micros || 0) / 1000000;
+      const conversionsValue = Number(row.metrics?.conversions_value || 0);
+      const leads = hasLeads ? leadsByCampaign.get(id) ?? 0 : null;
+      const type = enumName(enums.AdvertisingChannelType, row.campaign?.advertising_channel_type);
+      return {
+        id,
+        name: row.campaign?.name || 'Unknown Campaign',
+        channel: CHANNEL_FOR_CAMPAIGN_TYPE[type] ?? 'Paid Other',
+        cost,
+        clicks: Number(row.metrics?.clicks || 0),
+        adsConversions: Number(row.metrics?.conversions || 0),
+        conversionsValue,
+        leads,
+        costPerLead: leads === null ? null : ratio(cost, leads),
+        roas: ratio(conversionsValue, cost),
+      };
+    });
+
+    // Ads spend and conversions land on the GA4 channel of each campaign's type
+    const adsByChannel = new Map<string, { cost: number; adsConversions: number }>();
+    for (const campaign of campaigns) {
+      const sum = adsByChannel.get(campaign.channel) ?? { cost: 0, adsConversions: 0 };
+      adsByChannel.set(campaign.channel, {
+        cost: sum.cost + campaign.cost,
+        adsConversions: sum.adsConversions + campaign.adsConversions,
+      });
+    }
+    const channels = reports?.responses.channels?.rows?.map(row => {
+      const channel = row.dimensionValues?.[0]?.value || 'Unknown';
+      const keyEvents = parseFloat(row.metricValues?.[1]?.value || '0');
+      const ads = adsByChannel.get(channel);
+      return {
+        channel,
+        sessions: parseInt(row.metricValues?.[0]?.value || '0'),
+        keyEvents,
+        cost: ads?.cost ?? null,
+        adsConversions: ads?.adsConversions ?? null,
+        costPerLead: ads ? ratio(ads.cost, keyEvents) : null,
+        costPerConversion: ads ? ratio(ads.cost, ads.adsConversions) : null,
+      };
+    }) || [];
+
+    // Both sources report daily; bucket them the same way
+    const buckets = new Map<string, { cost: number; adsConversions: number; conversionsValue: number; leads: number }>();
+    const bucketFor = (date: string) => {
+      const key = bucketStart(date, granularity);
+      if (!buckets.has(key)) buckets.set(key, { cost: 0, adsConversions: 0, conversionsValue: 0, leads: 0 });
+      return buckets.get(key)!;
+    };
+    for (const row of dailyRows as any[]) {
+      const bucket = bucketFor(row.segments?.date || '');
+      bucket.cost += Number(row.metrics?.cost_micros || 0) / 1000000;
+      bucket.adsConversions += Number(row.metrics?.conversions || 0);
+      bucket.conversionsValue += Number(row.metrics?.conversions_value || 0);
+    }
+    for (const row of reports?.responses.trend?.rows ?? []) {
+      const date = row.dimensionValues?.[0]?.value || '';
+      const bucket = bucketFor(`${date.substring(0, 4)}-${date.substring(4, 6)}-${date.substring(6, 8)}`);
+      bucket.leads += parseFloat(row.metricValues?.[0]?.value || '0');
+    }
+    const trend = Array.from(buckets.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, bucket]) => ({
+        date,
+        cost: bucket.cost,
+        adsConversions: bucket.adsConversions,
+        leads: hasLeads ? bucket.leads : null,
+        costPerLead: hasLeads ? ratio(bucket.cost, bucket.leads) : null,
+        costPerConversion: ratio(bucket.cost, bucket.adsConversions),
+        roas: ratio(bucket.conversionsValue, bucket.cost),
+      }));
+
+    const cost = trend.reduce((total, bucket) => total + bucket.cost, 0);
+    const adsConversions = trend.reduce((total, bucket) => total + bucket.adsConversions, 0);
+    const conversionsValue = Array.from(buckets.values()).reduce((total, bucket) => total + bucket.conversionsValue, 0);
+    const leads = hasLeads ? Array.from(leadsByCampaign.values()).reduce((total, value) => total + value, 0) : null;
+
+    return NextResponse.json({
+      companyId: tenant.companyId,
+      companyName: tenant.name,
+      hasGoogleAds: true,
+      currencyCode: account.currencyCode,
+      dateRange,
+      granularity,
+      totals: {
+        cost,
+        adsConversions,
+        conversionsValue,
+        leads,
+        costPerLead: leads === null ? null : ratio(cost, leads),
+        costPerConversion: ratio(cost, adsConversions),
+        roas: ratio(conversionsValue, cost),
+      },
+      channels,
+      campaigns,
+      trend,
+      limited: reports?.limited ?? false,
+      errors: reports?.errors ?? {},
+    });
+  },
+);
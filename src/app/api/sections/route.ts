@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { resolveSectionAccess } from '@/utils/sections';
+import { requireTenant } from '@/utils/tenants';
+import { withSession } from '@/utils/withSession';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Which dashboard sections the current user may see for the company being
+ * viewed. The data routes enforce the same rules; this only tells the
+ * dashboard what to render.
+ */
+export const GET = withSession(
+  { errorMessage: 'Failed to load dashboard sections' },
+  async (_request, session) => {
+    const tenant = requireTenant(session.companyId);
+
+    return NextResponse.json({
+      companyId: tenant.companyId,
+      companyName: tenant.name,
+      sections: resolveSectionAccess(tenant, session),
+    });
+  },
+);
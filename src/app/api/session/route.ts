@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { copilotApi } from 'copilot-node-sdk';
+import { z } from 'zod';
+import {
+  createSessionToken,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+} from '@/utils/appSession';
+
+export const dynamic = 'force-dynamic';
+
+const exchangeSchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * Exchanges the Copilot session token the app was loaded with for a
+ * short-lived API session, returned both as an httpOnly cookie and as a
+ * bearer token for iframes where third-party cookies are blocked.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const missingVars = ['COPILOT_API_KEY', 'SESSION_SECRET'].filter(
+      (name) => !process.env[name]
+    );
+    if (missingVars.length > 0) {
+      console.error('Missing environment variables:', missingVars);
+      return NextResponse.json(
+        { error: 'Server configuration error', missing: missingVars },
+        { status: 500 }
+      );
+    }
+
+    const body = exchangeSchema.safeParse(await request.json().catch(() => null));
+    if (!body.success) {
+      return NextResponse.json({ error: 'No token provided' }, { status: 401 });
+    }
+
+    // Outside local mode the SDK throws for a token it can't decrypt
+    let tokenPayload;
+    try {
+      const copilot = copilotApi({
+        apiKey: process.env.COPILOT_API_KEY ?? '',
+        token: body.data.token,
+      });
+      tokenPayload = await copilot.getTokenPayload?.();
+    } catch {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+    if (!tokenPayload?.internalUserId && !tokenPayload?.clientId) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const { sessionToken, expiresAt } = createSessionToken(body.data.token);
+    const response = NextResponse.json({
+      sessionToken,
+      expiresAt,
+      userType: tokenPayload.internalUserId ? 'internal' : 'client',
+    });
+    response.cookies.set(SESSION_COOKIE, sessionToken, {
+      httpOnly: true,
+      secure: true,
+      // The app runs inside the Copilot iframe, so the cookie is third-party
+      sameSite: 'none',
+      partitioned: true,
+      path: '/api',
+      maxAge: SESSION_TTL_SECONDS,
+    });
+    return response;
+  } catch (error: any) {
+    console.error('Session exchange error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start session', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { canAccessCompany, listAllCompanies } from '@/utils/companies';
+import {
+  dataSources,
+  formatIssuePath,
+  getTenantRegistry,
+  saveTenantRegistry,
+  sourceIdKeys,
+  tenantRegistrySchema,
+} from '@/utils/tenants';
+import { ApiError, withSession } from '@/utils/withSession';
+
+export const dynamic = 'force-dynamic';
+
+// Only the tenant list is editable from the admin screen; pending clients
+// are carried over from the current registry.
+const updateSchema = z.object({
+  tenants: z.array(z.unknown()),
+});
+
+// Internal users limited to some clients in Copilot only see and edit
+// those clients' mappings, as in /api/companies
+export const GET = withSession(
+  { internalOnly: true, errorMessage: 'Failed to load client mappings' },
+  async (_request, { copilot, internalUser }) => {
+    const canAccess = (companyId: string) => !internalUser || canAccessCompany(internalUser, companyId);
+    const registry = getTenantRegistry();
+
+    return NextResponse.json({
+      companies: (await listAllCompanies(copilot)).filter((company) => canAccess(company.id)),
+      registry: {
+        ...registry,
+        tenants: registry.tenants.filter((tenant) => canAccess(tenant.companyId)),
+      },
+    });
+  },
+);
+
+export const PUT = withSession(
+  { internalOnly: true, errorMessage: 'Failed to save client mappings' },
+  async (request, { internalUser }) => {
+    const canAccess = (companyId: string) => !internalUser || canAccessCompany(internalUser, companyId);
+    const body = updateSchema.safeParse(await request.json());
+    if (!body.success) {
+      throw new ApiError(400, 'Invalid request body');
+    }
+
+    // Checked before validation so a duplicate-company error can't reveal
+    // a mapping the user isn't allowed to see
+    const denied = body.data.tenants.flatMap((tenant) => {
+      const companyId = (tenant as { companyId?: unknown } | null)?.companyId;
+      return typeof companyId === 'string' && !canAccess(companyId) ? [companyId] : [];
+    });
+    if (denied.length > 0) {
+      throw new ApiError(403, 'You do not have access to some of these companies', {
+        companyIds: denied,
+      });
+    }
+
+    // Mappings the user can't see are carried over untouched, after the
+    // submitted ones so validation issue paths still match the request
+    const current = getTenantRegistry();
+    const parsed = tenantRegistrySchema.safeParse({
+      tenants: [
+        ...body.data.tenants,
+        ...current.tenants.filter((tenant) => !canAccess(tenant.companyId)),
+      ],
+    });
+    if (!parsed.success) {
+      throw new ApiError(400, 'Invalid client mappings', {
+        issues: parsed.error.issues.map((issue) => ({
+          path: formatIssuePath(issue.path),
+          message: issue.message,
+        })),
+      });
+    }
+
+    // A pending client whose account ID has now been attached to a company
+    // has been onboarded, so it leaves the pending list. Whatever is left
+    // can't collide with the new tenants.
+    const claimed = new Set(
+      parsed.data.tenants.flatMap((tenant) =>
+        dataSources.flatMap((source) => {
+          const config = tenant[source] as Record<string, string> | undefined;
+          return config ? [`${source}:${config[sourceIdKeys[source]]}`] : [];
+        })
+      )
+    );
+    const registry = {
+      ...parsed.data,
+      pending: current.pending.filter((pending) =>
+        dataSources.every((source) => {
+          const config = pending[source] as Record<string, string> | undefined;
+          return !config || !claimed.has(`${source}:${config[sourceIdKeys[source]]}`);
+        })
+      ),
+    };
+
+    await saveTenantRegistry(registry);
+    console.log('Saved client mappings:', registry.tenants.length, 'tenants');
+
+    return NextResponse.json({
+      registry: {
+        ...registry,
+        tenants: registry.tenants.filter((tenant) => canAccess(tenant.companyId)),
+      },
+    });
+  },
+);
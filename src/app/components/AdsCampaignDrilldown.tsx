@@ -0,0 +1,262 @@
+'use client';
+
+import { useEffect, useState, type ReactNode } from 'react';
+import { useApiFetch } from '@/utils/apiClient';
+import { formatMoney } from '@/utils/money';
+
+interface Performance {
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  conversions: number;
+  cost?: number;
+  averageCpc?: number;
+}
+
+interface CampaignData {
+  currencyCode: string;
+  campaign: Performance & { id: string; name: string; status: string };
+  adGroups: Array<Performance & { id: string; name: string; status: string }>;
+  keywords: Array<Performance & {
+    id: string;
+    adGroup: string;
+    text: string;
+    matchType: string;
+    qualityScore: number | null;
+    topImpressionRate: number;
+    absoluteTopImpressionRate: number;
+  }>;
+  searchTerms: Array<Performance & { searchTerm: string; adGroup: string; status: string }>;
+}
+
+type Tab = 'adGroups' | 'keywords' | 'searchTerms';
+
+const TABS: Array<{ value: Tab; label: string }> = [
+  { value: 'adGroups', label: 'Ad Groups' },
+  { value: 'keywords', label: 'Keywords' },
+  { value: 'searchTerms', label: 'Search Terms' },
+];
+
+interface AdsCampaignDrilldownProps {
+  companyId?: string | null;
+  campaignId: string;
+  campaignName: string;
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  onBack: () => void;
+}
+
+export function AdsCampaignDrilldown({ companyId, campaignId, campaignName, dateRange, onBack }: AdsCampaignDrilldownProps) {
+  const [data, setData] = useState<CampaignData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<Tab>('adGroups');
+  const apiFetch = useApiFetch();
+
+  useEffect(() => {
+    async function fetchCampaign() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({ campaignId, startDate: dateRange.start, endDate: dateRange.end });
+        if (companyId) params.set('companyId', companyId);
+        const response = await apiFetch(`/api/google-ads/campaign?${params}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to fetch campaign data');
+        }
+
+        const result = await response.json();
+        setData(result);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchCampaign();
+  }, [apiFetch, campaignId, dateRange, companyId]);
+
+  const showCost = data?.campaign.cost !== undefined;
+  const money = (value: number) => formatMoney(value, data?.currencyCode);
+
+  // Columns every tab shares, after its own leading columns
+  const performanceHeaders = (
+    <>
+      <th className="text-right py-3 px-4 font-semibold text-gray-700">Impr.</th>
+      <th className="text-right py-3 px-4 font-semibold text-gray-700">Clicks</th>
+      <th className="text-right py-3 px-4 font-semibold text-gray-700">CTR</th>
+      {showCost && <th className="text-right py-3 px-4 font-semibold text-gray-700">Cost</th>}
+      {showCost && <th className="text-right py-3 px-4 font-semibold text-gray-700">Avg CPC</th>}
+      <th className="text-right py-3 px-4 font-semibold text-gray-700">Conv.</th>
+    </>
+  );
+  const performanceCells = (row: Performance) => (
+    <>
+      <td className="py-3 px-4 text-right">{row.impressions.toLocaleString()}</td>
+      <td className="py-3 px-4 text-right font-semibold">{row.clicks.toLocaleString()}</td>
+      <td className="py-3 px-4 text-right">{row.ctr.toFixed(2)}%</td>
+      {showCost && <td className="py-3 px-4 text-right">{money(row.cost ?? 0)}</td>}
+      {showCost && <td className="py-3 px-4 text-right">{money(row.averageCpc ?? 0)}</td>}
+      <td className="py-3 px-4 text-right">{row.conversions.toFixed(1)}</td>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 text-sm">
+        <button onClick={onBack} className="text-blue-600 hover:underline">
+          Campaigns
+        </button>
+        <span className="text-gray-400">›</span>
+        <span className="font-semibold">{campaignName}</span>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center p-12">
+          <div className="text-gray-500 text-lg">Loading {campaignName}...</div>
+        </div>
+      ) : error ? (
+        <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
+          <div className="text-red-600 font-semibold text-lg">Error loading campaign</div>
+          <div className="text-red-500 text-sm mt-2">{error}</div>
+        </div>
+      ) : !data ? null : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <SummaryCard title="Status" value={data.campaign.status} />
+            <SummaryCard title="Clicks" value={data.campaign.clicks.toLocaleString()} />
+            <SummaryCard title="CTR" value={`${data.campaign.ctr.toFixed(2)}%`} />
+            <SummaryCard title="Conversions" value={data.campaign.conversions.toFixed(1)} />
+            {data.campaign.cost !== undefined && <SummaryCard title="Cost" value={money(data.campaign.cost)} />}
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow border border-gray-200">
+            <div className="flex gap-2 mb-4">
+              {TABS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setTab(option.value)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                    tab === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {tab === 'adGroups' && (
+              <DrilldownTable
+                empty="No ad groups with activity in this period"
+                headers={
+                  <>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Ad Group</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Status</th>
+                    {performanceHeaders}
+                  </>
+                }
+                rows={data.adGroups.map((row) => (
+                  <tr key={row.id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4">{row.name}</td>
+                    <td className="py-3 px-4 text-sm text-gray-500">{row.status}</td>
+                    {performanceCells(row)}
+                  </tr>
+                ))}
+              />
+            )}
+
+            {tab === 'keywords' && (
+              <DrilldownTable
+                empty="No keywords with activity in this period"
+                headers={
+                  <>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Keyword</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700" title="Quality score, 1-10">QS</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700" title="Share of impressions shown above the organic results">
+                      Top %
+                    </th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700" title="Share of impressions shown as the very first ad">
+                      Abs. Top %
+                    </th>
+                    {performanceHeaders}
+                  </>
+                }
+                rows={data.keywords.map((row) => (
+                  <tr key={`${row.adGroup}-${row.id}`} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <div>{row.text}</div>
+                      <div className="text-xs text-gray-400">
+                        {row.matchType.toLowerCase()} · {row.adGroup}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-right">{row.qualityScore ?? '—'}</td>
+                    <td className="py-3 px-4 text-right">{row.topImpressionRate.toFixed(0)}%</td>
+                    <td className="py-3 px-4 text-right">{row.absoluteTopImpressionRate.toFixed(0)}%</td>
+                    {performanceCells(row)}
+                  </tr>
+                ))}
+              />
+            )}
+
+            {tab === 'searchTerms' && (
+              <DrilldownTable
+                empty="No search terms in this period"
+                headers={
+                  <>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Search Term</th>
+                    {performanceHeaders}
+                  </>
+                }
+                rows={data.searchTerms.map((row) => (
+                  <tr key={`${row.adGroup}-${row.searchTerm}`} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <div>{row.searchTerm}</div>
+                      <div className="text-xs text-gray-400">
+                        {row.adGroup}
+                        {row.status === 'ADDED' && ' · added as keyword'}
+                        {row.status === 'EXCLUDED' && ' · excluded'}
+                      </div>
+                    </td>
+                    {performanceCells(row)}
+                  </tr>
+                ))}
+              />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ title, value }: { title: string; value: string }) {
+  return (
+    <div className="bg-white p-4 rounded-lg shadow border border-gray-200">
+      <div className="text-gray-500 text-xs font-medium">{title}</div>
+      <div className="text-2xl font-bold mt-2 text-blue-600">{value}</div>
+    </div>
+  );
+}
+
+function DrilldownTable({ headers, rows, empty }: { headers: ReactNode; rows: ReactNode[]; empty: string }) {
+  if (rows.length === 0) {
+    return <div className="text-gray-500 text-sm">{empty}</div>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b-2 border-gray-200">{headers}</tr>
+        </thead>
+        <tbody>{rows}</tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useApiFetch } from '@/utils/apiClient';
+import { formatMoney } from '@/utils/money';
+import { DateRangePicker, DEFAULT_DATE_RANGE, SelectedDateRange } from './DateRangePicker';
+
+interface RollupMetrics {
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+  cpa: number | null;
+}
+
+interface RollupClient extends RollupMetrics {
+  companyId: string;
+  companyName: string;
+  customerId: string;
+  /** Null when the account failed to load. */
+  currencyCode: string | null;
+  error: string | null;
+}
+
+interface RollupTotal extends RollupMetrics {
+  currencyCode: string;
+  clients: number;
+}
+
+type SortKey = 'companyName' | 'cost' | 'clicks' | 'conversions' | 'cpa';
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'companyName', label: 'Client' },
+  { key: 'cost', label: 'Spend' },
+  { key: 'clicks', label: 'Clicks' },
+  { key: 'conversions', label: 'Conversions' },
+  { key: 'cpa', label: 'CPA' },
+];
+
+// Clients without a CPA (no conversions) sort after every client with one,
+// in either direction, so only the non-null comparison follows `desc`
+function compareClients(a: RollupClient, b: RollupClient, { key, desc }: { key: SortKey; desc: boolean }) {
+  if (key === 'companyName') {
+    const order = a.companyName.localeCompare(b.companyName);
+    return desc ? -order : order;
+  }
+  const left = a[key];
+  const right = b[key];
+  if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+  const order = left === right ? 0 : left < right ? -1 : 1;
+  return desc ? -order : order;
+}
+
+export function AdsRollup() {
+  const [range, setRange] = useState<SelectedDateRange>(DEFAULT_DATE_RANGE);
+  const [clients, setClients] = useState<RollupClient[]>([]);
+  const [totals, setTotals] = useState<RollupTotal[]>([]);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'cost', desc: true });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const apiFetch = useApiFetch();
+
+  useEffect(() => {
+    async function fetchRollup() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({ startDate: range.start, endDate: range.end });
+        const response = await apiFetch(`/api/google-ads/rollup?${params}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to fetch Google Ads rollup');
+        }
+
+        const result = await response.json();
+        setClients(result.clients);
+        setTotals(result.totals);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchRollup();
+  }, [apiFetch, range]);
+
+  // Failed accounts stay at the bottom whatever the sort
+  const sortedClients = [...clients].sort((a, b) => {
+    if (!!a.error !== !!b.error) return a.error ? 1 : -1;
+    return compareClients(a, b, sort);
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Google Ads Across Clients</h2>
+          <p className="text-gray-500 text-sm mt-1">
+            Every client with Google Ads mapped, queried through the manager account.
+          </p>
+        </div>
+        <DateRangePicker value={range} onChange={setRange} />
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center p-12">
+          <div className="text-gray-500 text-lg">Loading Google Ads accounts...</div>
+        </div>
+      ) : error ? (
+        <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
+          <div className="text-red-600 font-semibold text-lg">Error loading Google Ads rollup</div>
+          <div className="text-red-500 text-sm mt-2">{error}</div>
+        </div>
+      ) : clients.length === 0 ? (
+        <div className="text-gray-500 text-sm">No clients have Google Ads mapped yet.</div>
+      ) : (
+        <div className="bg-white p-6 rounded-lg shadow border border-gray-200 overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b-2 border-gray-200">
+                {COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    onClick={() =>
+                      setSort({ key: column.key, desc: sort.key === column.key ? !sort.desc : column.key !== 'companyName' })
+                    }
+                    className={`py-3 px-4 font-semibold text-gray-700 cursor-pointer select-none ${column.key === 'companyName' ? 'text-left' : 'text-right'}`}
+                  >
+                    {column.label}
+                    {sort.key === column.key && (sort.desc ? ' ▼' : ' ▲')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedClients.map((client) => (
+                <tr key={client.companyId} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-4">
+                    <div>{client.companyName}</div>
+                    <div className="text-xs text-gray-400">{client.customerId}</div>
+                  </td>
+                  {client.error ? (
+                    <td colSpan={4} className="py-3 px-4 text-right text-sm text-red-500">
+                      {client.error}
+                    </td>
+                  ) : (
+                    <>
+                      <td className={`py-3 px-4 text-right font-semibold ${client.cost === 0 ? 'text-amber-600' : ''}`}>
+                        {formatMoney(client.cost, client.currencyCode ?? undefined)}
+                      </td>
+                      <td className="py-3 px-4 text-right">{client.clicks.toLocaleString()}</td>
+                      <td className="py-3 px-4 text-right">{client.conversions.toFixed(1)}</td>
+                      <td className="py-3 px-4 text-right">{formatMoney(client.cpa, client.currencyCode ?? undefined)}</td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+            {/* One total per currency; amounts in different currencies don't add up */}
+            {totals.length > 0 && (
+              <tfoot>
+                {totals.map((total, i) => (
+                  <tr key={total.currencyCode} className={`font-semibold ${i === 0 ? 'border-t-2 border-gray-200' : ''}`}>
+                    <td className="py-3 px-4">
+                      Total ({total.clients} clients{totals.length > 1 ? `, ${total.currencyCode}` : ''})
+                    </td>
+                    <td className="py-3 px-4 text-right">{formatMoney(total.cost, total.currencyCode)}</td>
+                    <td className="py-3 px-4 text-right">{total.clicks.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right">{total.conversions.toFixed(1)}</td>
+                    <td className="py-3 px-4 text-right">{formatMoney(total.cpa, total.currencyCode)}</td>
+                  </tr>
+                ))}
+              </tfoot>
+            )}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useApiFetch } from '@/utils/apiClient';
+import type { AuditOutcome, AuditRecord } from '@/utils/audit';
+
+interface Filters {
+  company: string;
+  user: string;
+  source: string;
+  outcome: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { company: '', user: '', source: '', outcome: '', from: '', to: '' };
+
+const SOURCE_OPTIONS = [
+  { value: 'ga4', label: 'Google Analytics' },
+  { value: 'googleAds', label: 'Google Ads' },
+  { value: 'metricool', label: 'Metricool' },
+];
+
+const OUTCOME_CLASSES: Record<AuditOutcome, string> = {
+  success: 'bg-green-50 text-green-700',
+  denied: 'bg-red-50 text-red-700',
+  unavailable: 'bg-gray-100 text-gray-600',
+  rejected: 'bg-orange-50 text-orange-700',
+  error: 'bg-red-100 text-red-800',
+};
+
+// Date inputs give whole days; the API filters on ISO timestamps
+function toQuery(filters: Filters) {
+  const params = new URLSearchParams();
+  if (filters.company) params.set('company', filters.company.trim());
+  if (filters.user) params.set('user', filters.user.trim());
+  if (filters.source) params.set('source', filters.source);
+  if (filters.outcome) params.set('outcome', filters.outcome);
+  if (filters.from) params.set('from', `${filters.from}T00:00:00.000Z`);
+  if (filters.to) params.set('to', `${filters.to}T23:59:59.999Z`);
+  return params;
+}
+
+export function AuditLog() {
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const apiFetch = useApiFetch();
+
+  useEffect(() => {
+    async function fetchRecords() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await apiFetch(`/api/audit?${toQuery(applied)}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to fetch audit log');
+        }
+
+        const result = await response.json();
+        setRecords(result.records);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchRecords();
+  }, [apiFetch, applied]);
+
+  // The session travels in a header, so the CSV is fetched and handed to
+  // the browser as a blob rather than linked to directly.
+  const exportCsv = useCallback(async () => {
+    setExporting(true);
+    setError(null);
+
+    try {
+      const params = toQuery(applied);
+      params.set('format', 'csv');
+      params.set('limit', '5000');
+      const response = await apiFetch(`/api/audit?${params}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to export audit log');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setExporting(false);
+    }
+  }, [apiFetch, applied]);
+
+  const updateFilter = (key: keyof Filters, value: string) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+
+  const inputClassName =
+    'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Access Audit Log</h2>
+          <p className="text-gray-500 text-sm mt-1">
+            Every request for a client&apos;s analytics, newest first.
+          </p>
+        </div>
+        <button
+          onClick={exportCsv}
+          disabled={exporting}
+          className="px-4 py-2 rounded-lg border border-gray-300 bg-white font-medium disabled:opacity-50"
+        >
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      <form
+        className="flex flex-wrap items-end gap-3 bg-white p-4 rounded-lg shadow border border-gray-200"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setApplied(filters);
+        }}
+      >
+        <label className="flex flex-col text-xs text-gray-600 gap-1">
+          Company ID
+          <input value={filters.company} onChange={(e) => updateFilter('company', e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col text-xs text-gray-600 gap-1">
+          User ID
+          <input value={filters.user} onChange={(e) => updateFilter('user', e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col text-xs text-gray-600 gap-1">
+          Source
+          <select value={filters.source} onChange={(e) => updateFilter('source', e.target.value)} className={inputClassName}>
+            <option value="">All</option>
+            {SOURCE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-xs text-gray-600 gap-1">
+          Outcome
+          <select value={filters.outcome} onChange={(e) => updateFilter('outcome', e.target.value)} className={inputClassName}>
+            <option value="">All</option>
+            {Object.keys(OUTCOME_CLASSES).map((outcome) => (
+              <option key={outcome} value={outcome}>{outcome}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-xs text-gray-600 gap-1">
+          From
+          <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col text-xs text-gray-600 gap-1">
+          To
+          <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={inputClassName} />
+        </label>
+        <button type="submit" className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium">
+          Apply
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setFilters(EMPTY_FILTERS);
+            setApplied(EMPTY_FILTERS);
+          }}
+          className="px-4 py-2 rounded-lg text-sm text-gray-600"
+        >
+          Clear
+        </button>
+      </form>
+
+      {error && (
+        <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
+          <div className="text-red-600 font-semibold text-lg">Error loading audit log</div>
+          <div className="text-red-500 text-sm mt-2">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow border border-gray-200 overflow-x-auto">
+        {loading ? (
+          <div className="text-gray-500 text-center p-6">Loading audit log...</div>
+        ) : records.length === 0 ? (
+          <div className="text-gray-500 text-center p-6">No matching requests</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-2 border-gray-200">
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Time</th>
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">User</th>
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Company</th>
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Source</th>
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Date Range</th>
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Outcome</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map((record, index) => (
+                <tr key={index} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-4 whitespace-nowrap">{new Date(record.timestamp).toLocaleString()}</td>
+                  <td className="py-3 px-4">
+                    <div className="font-mono text-xs">{record.userId}</div>
+                    <div className="text-xs text-gray-500">{record.userType}</div>
+                  </td>
+                  <td className="py-3 px-4">
+                    <div>{record.companyName ?? '—'}</div>
+                    <div className="font-mono text-xs text-gray-400">{record.companyId}</div>
+                  </td>
+                  <td className="py-3 px-4">{record.source}</td>
+                  <td className="py-3 px-4 whitespace-nowrap">
+                    {record.dateRange.startDate ?? '—'} → {record.dateRange.endDate ?? '—'}
+                  </td>
+                  <td className="py-3 px-4">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${OUTCOME_CLASSES[record.outcome]}`}>
+                      {record.outcome} ({record.status})
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { formatMoney } from '@/utils/money';
+
+export interface PacingCampaign {
+  id: string;
+  name: string;
+  /** Paused since spending this month; it has no budget left to pace. */
+  paused: boolean;
+  sharedBudget: boolean;
+  monthlyBudget: number | null;
+  spend: number;
+  projectedSpend: number;
+  pace: number | null;
+}
+
+export interface Pacing {
+  month: string;
+  daysElapsed: number;
+  daysInMonth: number;
+  spend: number;
+  monthlyBudget: number;
+  projectedSpend: number;
+  pace: number | null;
+  /** Spent this month by paused campaigns and those without a monthly budget; not in the pace above. */
+  unbudgetedSpend: number;
+  campaigns: PacingCampaign[];
+}
+
+// Within 10% of budget either way counts as on pace
+function paceStatus(pace: number | null) {
+  if (pace === null) return { label: 'No monthly budget', className: 'text-gray-400', bar: 'bg-gray-300' };
+  if (pace > 1.1) return { label: 'Overspending', className: 'text-red-600', bar: 'bg-red-500' };
+  if (pace < 0.9) return { label: 'Underspending', className: 'text-amber-600', bar: 'bg-amber-400' };
+  return { label: 'On pace', className: 'text-green-600', bar: 'bg-green-500' };
+}
+
+export function BudgetPacing({ pacing, currencyCode }: { pacing: Pacing; currencyCode?: string }) {
+  const money = (value: number) => formatMoney(value, currencyCode);
+  const overall = paceStatus(pacing.pace);
+  const monthLabel = new Date(`${pacing.month}-01T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+  const spentShare = pacing.monthlyBudget > 0 ? Math.min(1, pacing.spend / pacing.monthlyBudget) : 0;
+  const elapsedShare = pacing.daysElapsed / pacing.daysInMonth;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border border-gray-200 space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h3 className="text-xl font-bold">Budget Pacing · {monthLabel}</h3>
+        <span className="text-sm text-gray-500">
+          Day {pacing.daysElapsed} of {pacing.daysInMonth}
+        </span>
+      </div>
+
+      <div>
+        <div className="flex items-baseline justify-between text-sm mb-1">
+          <span>
+            <span className="font-semibold">{money(pacing.spend)}</span> spent of{' '}
+            {money(pacing.monthlyBudget)}
+          </span>
+          <span className={`font-semibold ${overall.className}`}>
+            {overall.label}
+            {pacing.pace !== null && ` · projected ${money(pacing.projectedSpend)}`}
+          </span>
+        </div>
+        {/* The tick marks how much of the month has gone by */}
+        <div className="relative h-3 bg-gray-100 rounded-full overflow-hidden">
+          <div className={`h-full ${overall.bar}`} style={{ width: `${spentShare * 100}%` }} />
+          <div className="absolute top-0 h-full w-0.5 bg-gray-700" style={{ left: `${elapsedShare * 100}%` }} />
+        </div>
+        {pacing.unbudgetedSpend > 0 && (
+          <div className="text-xs text-gray-500 mt-1">
+            Plus {money(pacing.unbudgetedSpend)} from paused campaigns and campaigns without a monthly budget
+          </div>
+        )}
+      </div>
+
+      {pacing.campaigns.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b-2 border-gray-200">
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Campaign</th>
+                <th className="text-right py-3 px-4 font-semibold text-gray-700">Monthly Budget</th>
+                <th className="text-right py-3 px-4 font-semibold text-gray-700">Spent</th>
+                <th className="text-right py-3 px-4 font-semibold text-gray-700">Projected</th>
+                <th className="text-right py-3 px-4 font-semibold text-gray-700">Pace</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pacing.campaigns.map((campaign) => {
+                const status = paceStatus(campaign.pace);
+                return (
+                  <tr key={campaign.id} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      {campaign.name}
+                      {campaign.paused && <span className="ml-2 text-xs text-gray-400">paused</span>}
+                      {campaign.sharedBudget && <span className="ml-2 text-xs text-gray-400">shared budget</span>}
+                    </td>
+                    <td className="py-3 px-4 text-right">
+                      {campaign.monthlyBudget !== null ? money(campaign.monthlyBudget) : '—'}
+                    </td>
+                    <td className="py-3 px-4 text-right font-semibold">{money(campaign.spend)}</td>
+                    <td className="py-3 px-4 text-right">{money(campaign.projectedSpend)}</td>
+                    <td className={`py-3 px-4 text-right ${status.className}`}>
+                      {campaign.pace !== null ? `${Math.round(campaign.pace * 100)}%` : campaign.paused ? 'Paused' : status.label}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400 mt-2">
+            Monthly budgets are 30.4 times the daily budget, the most Google Ads will spend in a month.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
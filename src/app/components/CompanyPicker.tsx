@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useApiFetch } from '@/utils/apiClient';
+
+interface CompanyOption {
+  id: string;
+  name: string;
+}
+
+interface CompanyPickerProps {
+  value: string | null;
+  onChange: (companyId: string) => void;
+}
+
+/**
+ * Lets internal users choose which onboarded company the dashboard shows.
+ * Selects the first company once the list loads so there's always data.
+ */
+export function CompanyPicker({ value, onChange }: CompanyPickerProps) {
+  const [companies, setCompanies] = useState<CompanyOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const apiFetch = useApiFetch();
+
+  useEffect(() => {
+    async function fetchCompanies() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await apiFetch('/api/companies');
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to fetch companies');
+        }
+
+        const result = await response.json();
+        setCompanies(result.companies);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchCompanies();
+  }, [apiFetch]);
+
+  useEffect(() => {
+    if (!value && companies.length > 0) {
+      onChange(companies[0].id);
+    }
+  }, [value, companies, onChange]);
+
+  if (error) {
+    return <div className="text-red-500 text-sm">Error loading companies: {error}</div>;
+  }
+
+  return (
+    <div className="flex items-center gap-3 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      <label className="text-sm font-medium text-gray-700">Viewing company:</label>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={loading || companies.length === 0}
+        className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {loading && <option value="">Loading companies...</option>}
+        {!loading && companies.length === 0 && <option value="">No onboarded companies</option>}
+        {companies.map((company) => (
+          <option key={company.id} value={company.id}>{company.name}</option>
+        ))}
+      </select>
+      <span className="text-xs text-gray-500">Only visible to internal users</span>
+    </div>
+  );
+}
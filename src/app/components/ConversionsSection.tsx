@@ -0,0 +1,121 @@
+'use client';
+
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+export interface KeyEventRow {
+  eventName: string;
+  keyEvents: number;
+  eventCount: number;
+}
+
+export interface ChannelConversionRow {
+  channel: string;
+  keyEvents: number;
+  sessions: number;
+  conversionRate: string;
+}
+
+interface ConversionsSectionProps {
+  keyEvents: KeyEventRow[];
+  byChannel: ChannelConversionRow[];
+  /** Time-series points with `keyEvents`, and `previousKeyEvents` when comparing. */
+  trend: Array<{ date: string; keyEvents?: number; previousKeyEvents?: number }>;
+  showPrevious: boolean;
+}
+
+// GA4 event names are snake_case; show them the way clients talk about them
+function formatEventName(name: string) {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, (letter) => letter.toUpperCase());
+}
+
+export function ConversionsSection({ keyEvents, byChannel, trend, showPrevious }: ConversionsSectionProps) {
+  if (keyEvents.length === 0) {
+    return (
+      <div className="bg-white p-6 rounded-lg shadow border border-gray-200">
+        <h3 className="text-xl font-bold mb-2">Conversions</h3>
+        <p className="text-gray-500 text-sm">
+          No key events were recorded in this period. Leads such as form submissions and calls show up here once
+          they are marked as key events in Google Analytics.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border border-gray-200 space-y-6">
+      <h3 className="text-xl font-bold">Conversions</h3>
+
+      {/* Key events over time */}
+      {trend.length > 0 && (
+        <ResponsiveContainer width="100%" height={250}>
+          <LineChart data={trend}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Legend />
+            <Line type="monotone" dataKey="keyEvents" stroke="#10B981" name="Key Events" />
+            {showPrevious && (
+              <Line type="monotone" dataKey="previousKeyEvents" stroke="#10B981" strokeDasharray="5 5" dot={false} name="Key Events (prior)" />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Per-event breakdown */}
+        <div className="overflow-x-auto">
+          <h4 className="font-semibold text-gray-700 mb-2">By Event</h4>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b-2 border-gray-200">
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">Event</th>
+                <th className="text-right py-3 px-4 font-semibold text-gray-700">Key Events</th>
+                <th className="text-right py-3 px-4 font-semibold text-gray-700">Total Events</th>
+              </tr>
+            </thead>
+            <tbody>
+              {keyEvents.map((event) => (
+                <tr key={event.eventName} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-4">
+                    <div>{formatEventName(event.eventName)}</div>
+                    <div className="text-xs text-gray-400 font-mono">{event.eventName}</div>
+                  </td>
+                  <td className="py-3 px-4 text-right font-semibold">{event.keyEvents.toLocaleString()}</td>
+                  <td className="py-3 px-4 text-right">{event.eventCount.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Conversions by channel */}
+        {byChannel.length > 0 && (
+          <div className="overflow-x-auto">
+            <h4 className="font-semibold text-gray-700 mb-2">By Channel</h4>
+            <table className="w-full">
+              <thead>
+                <tr className="border-b-2 border-gray-200">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Channel</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">Key Events</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">Sessions</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">Conv. Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {byChannel.map((row) => (
+                  <tr key={row.channel} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4">{row.channel}</td>
+                    <td className="py-3 px-4 text-right font-semibold">{row.keyEvents.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right">{row.sessions.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right">{row.conversionRate}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
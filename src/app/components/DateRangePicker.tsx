@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { dateRangeIssues, EARLIEST_DATE } from '@/utils/dateRanges';
+
+export interface SelectedDateRange {
+  /** Preset label, or 'custom' for a range picked on the calendar. */
+  preset: string;
+  start: string;
+  end: string;
+}
+
+const RELATIVE_PRESETS = [
+  { label: 'Today', start: 'today', end: 'today' },
+  { label: 'Yesterday', start: 'yesterday', end: 'yesterday' },
+  { label: 'Last 7 Days', start: '7daysAgo', end: 'today' },
+  { label: 'Last 30 Days', start: '30daysAgo', end: 'today' },
+  { label: 'Last 90 Days', start: '90daysAgo', end: 'today' },
+  { label: 'Last 6 Months', start: '180daysAgo', end: 'today' },
+  { label: 'Last Year', start: '365daysAgo', end: 'today' },
+];
+
+// Calendar presets use the viewer's local dates, not UTC
+function localIsoDate(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function calendarPresets(now: Date) {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  const today = localIsoDate(now);
+
+  return [
+    { label: 'This Month', start: localIsoDate(new Date(year, month, 1)), end: today },
+    {
+      label: 'Last Month',
+      start: localIsoDate(new Date(year, month - 1, 1)),
+      end: localIsoDate(new Date(year, month, 0)),
+    },
+    { label: 'Quarter to Date', start: localIsoDate(new Date(year, month - (month % 3), 1)), end: today },
+    { label: 'Year to Date', start: localIsoDate(new Date(year, 0, 1)), end: today },
+  ];
+}
+
+export const DEFAULT_DATE_RANGE: SelectedDateRange = { preset: 'Last 30 Days', start: '30daysAgo', end: 'today' };
+
+export function DateRangePicker({
+  value,
+  onChange,
+}: {
+  value: SelectedDateRange;
+  onChange: (range: SelectedDateRange) => void;
+}) {
+  const presets = [...RELATIVE_PRESETS, ...calendarPresets(new Date())];
+  const [editing, setEditing] = useState(value.preset === 'custom');
+  const [draft, setDraft] = useState({
+    start: value.preset === 'custom' ? value.start : '',
+    end: value.preset === 'custom' ? value.end : '',
+  });
+  const today = localIsoDate(new Date());
+
+  const issues = draft.start && draft.end
+    ? dateRangeIssues({ startDate: draft.start, endDate: draft.end })
+    : [];
+
+  const applyCustom = () => {
+    if (!draft.start || !draft.end || issues.length > 0) return;
+    onChange({ preset: 'custom', start: draft.start, end: draft.end });
+  };
+
+  return (
+    <div className="flex items-center gap-3 flex-wrap">
+      <select
+        value={editing ? 'custom' : value.preset}
+        onChange={(e) => {
+          if (e.target.value === 'custom') {
+            setEditing(true);
+            return;
+          }
+          const preset = presets.find((p) => p.label === e.target.value);
+          if (!preset) return;
+          setEditing(false);
+          onChange({ preset: preset.label, start: preset.start, end: preset.end });
+        }}
+        className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {presets.map((preset) => (
+          <option key={preset.label} value={preset.label}>{preset.label}</option>
+        ))}
+        <option value="custom">Custom Range...</option>
+      </select>
+
+      {editing && (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={draft.start}
+            min={EARLIEST_DATE}
+            max={draft.end || today}
+            onChange={(e) => setDraft({ ...draft, start: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="date"
+            value={draft.end}
+            min={draft.start || EARLIEST_DATE}
+            max={today}
+            onChange={(e) => setDraft({ ...draft, end: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={applyCustom}
+            disabled={!draft.start || !draft.end || issues.length > 0}
+            className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm disabled:opacity-50"
+          >
+            Apply
+          </button>
+          {issues.length > 0 && <span className="text-red-500 text-xs">{issues[0].message}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import type { ComparisonMode } from '@/utils/dateRanges';
+
+export interface Change {
+  current: number;
+  previous: number;
+  /** For metrics like bounce rate or cost, where a drop is good news. */
+  lowerIsBetter?: boolean;
+}
+
+export const COMPARISON_OPTIONS: Array<{ label: string; value: ComparisonMode | '' }> = [
+  { label: 'No Comparison', value: '' },
+  { label: 'Previous Period', value: 'previous' },
+  { label: 'Same Period Last Year', value: 'yoy' },
+];
+
+export function percentChange(current: number, previous: number) {
+  return previous === 0 ? null : ((current - previous) / previous) * 100;
+}
+
+export function Delta({ current, previous, lowerIsBetter = false }: Change) {
+  const change = percentChange(current, previous);
+
+  if (change === null || Math.abs(change) < 0.05) {
+    return (
+      <div className="text-xs text-gray-400 mt-1">
+        {change === null && current > 0 ? 'New vs prior period' : 'No change vs prior period'}
+      </div>
+    );
+  }
+
+  const isGood = lowerIsBetter ? change < 0 : change > 0;
+
+  return (
+    <div className={`text-xs font-semibold mt-1 ${isGood ? 'text-green-600' : 'text-red-600'}`}>
+      {change > 0 ? '▲' : '▼'} {Math.abs(change).toFixed(1)}%
+      <span className="font-normal text-gray-400"> vs prior period</span>
+    </div>
+  );
+}
@@ -1,30 +1,56 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useEffect, useMemo, useState } from 'react';
+import { useBreadcrumbs } from '@/bridge/header';
+import { useApiFetch } from '@/utils/apiClient';
+import { formatBucketLabel, type ComparisonMode, type Granularity, type GranularityOption } from '@/utils/dateRanges';
+import type { SectionAccess } from '@/utils/sections';
 import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { GoogleAdsMetrics } from './GoogleAdsMetrics';
 import { MetricoolMetrics } from './MetricoolMetrics';
+import { CompanyPicker } from './CompanyPicker';
+import { ChannelConversionRow, ConversionsSection, KeyEventRow } from './ConversionsSection';
+import { DateRangePicker, DEFAULT_DATE_RANGE, SelectedDateRange } from './DateRangePicker';
+import { Change, COMPARISON_OPTIONS, Delta } from './Delta';
+import { GeographySection } from './GeographySection';
+import { LeadEconomics } from './LeadEconomics';
+import { isTenantNotice, OnboardingNotice, TenantNotice } from './OnboardingNotice';
+import { RealtimeWidget } from './RealtimeWidget';
+import { TrafficSourceDrilldown } from './TrafficSourceDrilldown';
+
+interface GA4Metrics {
+  activeUsers: number;
+  sessions: number;
+  pageViews: number;
+  avgSessionDuration: number;
+  bounceRate: string;
+  newUsers: number;
+  engagementRate: string;
+  keyEvents: number;
+  conversionRate: string;
+}
+
+interface TimeSeriesPoint {
+  date: string;
+  activeUsers: number;
+  sessions: number;
+  pageViews: number;
+  keyEvents: number;
+}
 
 interface GA4Data {
   companyId: string;
   companyName: string;
   dateRange: { startDate: string; endDate: string };
-  metrics: {
-    activeUsers: number;
-    sessions: number;
-    pageViews: number;
-    avgSessionDuration: number;
-    bounceRate: string;
-    newUsers: number;
-    engagementRate: string;
-  };
-  timeSeries: Array<{
-    date: string;
-    activeUsers: number;
-    sessions: number;
-    pageViews: number;
-  }>;
+  granularity: Granularity;
+  comparison: {
+    mode: ComparisonMode;
+    dateRange: { startDate: string; endDate: string };
+    metrics: GA4Metrics | null;
+    timeSeries: TimeSeriesPoint[];
+  } | null;
+  metrics: GA4Metrics | null;
+  timeSeries: TimeSeriesPoint[];
   topPages: Array<{
     title: string;
     path: string;
@@ -38,45 +64,145 @@ interface GA4Data {
     device: string;
     users: number;
   }>;
-  countries: Array<{
-    country: string;
-    users: number;
-  }>;
+  keyEvents: KeyEventRow[];
+  conversionsByChannel: ChannelConversionRow[];
+  errors?: Partial<Record<ReportName, string>>;
+  limited?: boolean;
+  cachedAt?: string | null;
 }
 
+type ReportName =
+  | 'metrics'
+  | 'timeSeries'
+  | 'topPages'
+  | 'trafficSources'
+  | 'devices'
+  | 'keyEvents'
+  | 'conversionsByChannel';
+
+const REPORT_LABELS: Record<ReportName, string> = {
+  metrics: 'Summary Metrics',
+  timeSeries: 'Traffic Over Time',
+  topPages: 'Top Pages',
+  trafficSources: 'Traffic Sources',
+  devices: 'Devices',
+  keyEvents: 'Key Events',
+  conversionsByChannel: 'Conversions by Channel',
+};
+
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82ca9d', '#ffc658', '#ff6b9d', '#c084fc', '#22d3ee', '#fb923c', '#a78bfa'];
 
-const DATE_RANGES = [
-  { label: 'Today', value: { start: 'today', end: 'today' } },
-  { label: 'Yesterday', value: { start: 'yesterday', end: 'yesterday' } },
-  { label: 'Last 7 Days', value: { start: '7daysAgo', end: 'today' } },
-  { label: 'Last 30 Days', value: { start: '30daysAgo', end: 'today' } },
-  { label: 'Last 90 Days', value: { start: '90daysAgo', end: 'today' } },
-  { label: 'Last 6 Months', value: { start: '180daysAgo', end: 'today' } },
-  { label: 'Last Year', value: { start: '365daysAgo', end: 'today' } },
+// Auto lets the routes pick daily, weekly or monthly buckets from the range length
+const GRANULARITIES: Array<{ label: string; value: GranularityOption }> = [
+  { label: 'Auto', value: 'auto' },
+  { label: 'Daily', value: 'day' },
+  { label: 'Weekly', value: 'week' },
+  { label: 'Monthly', value: 'month' },
 ];
 
-export function GA4Dashboard() {
+export function GA4Dashboard({
+  canSwitchCompany = false,
+  portalUrl,
+}: {
+  canSwitchCompany?: boolean;
+  portalUrl?: string;
+}) {
+  const [companyId, setCompanyId] = useState<string | null>(null);
+
+  if (!canSwitchCompany) {
+    return <CompanyDashboard companyId={null} portalUrl={portalUrl} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <CompanyPicker value={companyId} onChange={setCompanyId} />
+      {companyId && <CompanyDashboard key={companyId} companyId={companyId} portalUrl={portalUrl} />}
+    </div>
+  );
+}
+
+function CompanyDashboard({ companyId, portalUrl }: { companyId: string | null; portalUrl?: string }) {
   const [data, setData] = useState<GA4Data | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedRange, setSelectedRange] = useState(3); // Default to Last 30 Days
-  const searchParams = useSearchParams();
+  const [notice, setNotice] = useState<TenantNotice | null>(null);
+  const [quotaNotice, setQuotaNotice] = useState<string | null>(null);
+  const [sections, setSections] = useState<SectionAccess | null>(null);
+  const [companyName, setCompanyName] = useState<string | null>(null);
+  const [range, setRange] = useState<SelectedDateRange>(DEFAULT_DATE_RANGE);
+  const [compare, setCompare] = useState<ComparisonMode | ''>('');
+  const [granularity, setGranularity] = useState<GranularityOption>('auto');
+  const [drillChannel, setDrillChannel] = useState<string | null>(null);
+  const apiFetch = useApiFetch();
+
+  // Mirror the drill-down in the Copilot header so users can step back up
+  const breadcrumbs = useMemo(
+    () =>
+      drillChannel
+        ? [{ label: 'Analytics', onClick: () => setDrillChannel(null) }, { label: drillChannel }]
+        : [{ label: 'Analytics' }],
+    [drillChannel]
+  );
+  useBreadcrumbs(breadcrumbs, { portalUrl });
 
+  // Which sections this user may see; the routes enforce the same rules
   useEffect(() => {
+    async function fetchSections() {
+      try {
+        const response = await apiFetch(`/api/sections${companyId ? `?companyId=${companyId}` : ''}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          if (isTenantNotice(result)) {
+            setNotice(result);
+            setLoading(false);
+            return;
+          }
+          throw new Error(result.error || 'Failed to load dashboard');
+        }
+
+        setCompanyName(result.companyName);
+        setSections(result.sections);
+      } catch (err: any) {
+        setError(err.message);
+        setLoading(false);
+      }
+    }
+
+    fetchSections();
+  }, [apiFetch, companyId]);
+
+  useEffect(() => {
+    if (!sections) return;
+    if (!sections.analytics) {
+      setLoading(false);
+      return;
+    }
+
     async function fetchMetrics() {
       setLoading(true);
       setError(null);
+      setNotice(null);
+      setQuotaNotice(null);
       
       try {
-        const token = searchParams.get('token');
-        const range = DATE_RANGES[selectedRange].value;
-        const response = await fetch(
-          `/api/ga4/metrics?token=${token}&startDate=${range.start}&endDate=${range.end}`
+        const response = await apiFetch(
+          `/api/ga4/metrics?startDate=${range.start}&endDate=${range.end}&granularity=${granularity}${compare ? `&compare=${compare}` : ''}${companyId ? `&companyId=${companyId}` : ''}`
         );
         
         if (!response.ok) {
           const errorData = await response.json();
+          // Out of GA4 quota with nothing cached; the other sections still load
+          if (errorData.reason === 'quota_limited') {
+            setData(null);
+            setQuotaNotice(errorData.error);
+            return;
+          }
+          if (isTenantNotice(errorData)) {
+            setData(null);
+            setNotice(errorData);
+            return;
+          }
           throw new Error(errorData.error || 'Failed to fetch metrics');
         }
         
@@ -90,7 +216,7 @@ export function GA4Dashboard() {
     }
 
     fetchMetrics();
-  }, [searchParams, selectedRange]);
+  }, [apiFetch, range, compare, granularity, companyId, sections]);
 
   if (loading) {
     return (
@@ -109,7 +235,96 @@ export function GA4Dashboard() {
     );
   }
 
-  if (!data || !data.metrics) {
+  // Nothing to show at all until the company is onboarded
+  if (notice && (notice.reason === 'no_company' || notice.reason === 'not_onboarded')) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow border border-gray-200">
+        <OnboardingNotice notice={notice} />
+      </div>
+    );
+  }
+
+  const header = (
+    <div className="flex items-center justify-between flex-wrap gap-4">
+      <div>
+        <h2 className="text-3xl font-bold">{companyName}</h2>
+        <p className="text-gray-500 text-sm mt-1">Google Analytics Dashboard</p>
+      </div>
+      
+      <div className="flex items-center gap-3">
+        <label className="text-sm font-medium text-gray-700">Date Range:</label>
+        <DateRangePicker
+          value={range}
+          onChange={(next) => {
+            setRange(next);
+            // A new range starts from that range's default bucket size
+            setGranularity('auto');
+          }}
+        />
+        <label className="text-sm font-medium text-gray-700">Compare To:</label>
+        <select
+          value={compare}
+          onChange={(e) => setCompare(e.target.value as ComparisonMode | '')}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {COMPARISON_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <label className="text-sm font-medium text-gray-700">Group By:</label>
+        <select
+          value={granularity}
+          onChange={(e) => setGranularity(e.target.value as GranularityOption)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {GRANULARITIES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.value === 'auto' && data?.granularity
+                ? `Auto (${GRANULARITIES.find((g) => g.value === data.granularity)?.label})`
+                : option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+
+  const adsSection = sections?.ads && (
+    <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-8 rounded-lg shadow-lg border-2 border-blue-200">
+      <GoogleAdsMetrics companyId={companyId} dateRange={range} compare={compare} granularity={granularity} />
+    </div>
+  );
+
+  const socialSection = sections?.social && (
+    <div className="bg-gradient-to-r from-purple-50 to-pink-50 p-8 rounded-lg shadow-lg border-2 border-purple-200">
+      <MetricoolMetrics companyId={companyId} dateRange={range} />
+    </div>
+  );
+
+  // GA4 isn't connected or shown for this company, but its other sources may be
+  if (notice || quotaNotice || !sections?.analytics) {
+    return (
+      <div className="space-y-6">
+        {header}
+        {quotaNotice && (
+          <div className="p-6 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+            <div className="font-semibold text-lg">Analytics Temporarily Limited</div>
+            <div className="text-sm mt-2">{quotaNotice}</div>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-white p-8 rounded-lg shadow border border-gray-200">
+            <OnboardingNotice notice={notice} />
+          </div>
+        )}
+        {adsSection}
+        {socialSection}
+      </div>
+    );
+  }
+
+  // Only the summary report failing still leaves the rest worth showing
+  if (!data || (!data.metrics && !data.errors?.metrics)) {
     return (
       <div className="p-6 bg-gray-50 border border-gray-200 rounded-lg">
         <div className="text-gray-600">No analytics data available</div>
@@ -117,80 +332,123 @@ export function GA4Dashboard() {
     );
   }
 
-  const formatDate = (dateStr: string) => {
-    if (!dateStr || dateStr.length !== 8) return dateStr;
-    const year = dateStr.substring(0, 4);
-    const month = dateStr.substring(4, 6);
-    const day = dateStr.substring(6, 8);
-    return `${month}/${day}`;
-  };
+  if (drillChannel) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <TrafficSourceDrilldown
+          companyId={companyId}
+          channel={drillChannel}
+          dateRange={range}
+          onBack={() => setDrillChannel(null)}
+        />
+      </div>
+    );
+  }
 
-  const timeSeriesFormatted = data.timeSeries.map(item => ({
+  // Prior-period points line up with the current ones by bucket offset
+  const previousSeries = data.comparison?.timeSeries ?? [];
+  const timeSeriesFormatted = data.timeSeries.map((item, index) => ({
     ...item,
-    date: formatDate(item.date),
+    date: formatBucketLabel(item.date, data.granularity),
+    previousActiveUsers: previousSeries[index]?.activeUsers,
+    previousSessions: previousSeries[index]?.sessions,
+    previousPageViews: previousSeries[index]?.pageViews,
+    previousKeyEvents: previousSeries[index]?.keyEvents,
   }));
 
+  const metrics = data.metrics;
+  const previous = data.comparison?.metrics;
+  const changeFor = (current: number | string, prior: number | string | undefined, lowerIsBetter = false): Change | undefined =>
+    prior === undefined ? undefined : { current: Number(current), previous: Number(prior), lowerIsBetter };
+
   return (
     <div className="space-y-6">
       {/* Header with Company Name and Date Selector */}
-      <div className="flex items-center justify-between flex-wrap gap-4">
-        <div>
-          <h2 className="text-3xl font-bold">{data.companyName}</h2>
-          <p className="text-gray-500 text-sm mt-1">Google Analytics Dashboard</p>
+      {header}
+
+      {/* GA4 quota ran low, so these numbers may be from earlier */}
+      {data.limited && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-sm">
+          Google Analytics data is temporarily limited.{' '}
+          {data.cachedAt
+            ? `Showing results as of ${new Date(data.cachedAt).toLocaleString()}.`
+            : 'Some sections may be missing.'}{' '}
+          Fresh numbers will be back within the hour.
         </div>
-        
-        <div className="flex items-center gap-3">
-          <label className="text-sm font-medium text-gray-700">Date Range:</label>
-          <select 
-            value={selectedRange}
-            onChange={(e) => setSelectedRange(parseInt(e.target.value))}
-            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-          >
-            {DATE_RANGES.map((range, index) => (
-              <option key={index} value={index}>{range.label}</option>
-            ))}
-          </select>
+      )}
+
+      {/* Some reports failed but the rest came back */}
+      {!data.limited && data.errors && Object.keys(data.errors).length > 0 && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-sm">
+          Some sections could not be loaded:{' '}
+          {(Object.keys(data.errors) as ReportName[]).map((name) => REPORT_LABELS[name]).join(', ')}.
+          Try again in a few minutes.
         </div>
-      </div>
+      )}
+
+      {/* Realtime Active Users */}
+      <RealtimeWidget companyId={companyId} />
 
       {/* Main Metrics Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <MetricCard
-          title="Active Users"
-          value={data.metrics.activeUsers.toLocaleString()}
-          color="blue"
-        />
-        <MetricCard
-          title="Sessions"
-          value={data.metrics.sessions.toLocaleString()}
-          color="green"
-        />
-        <MetricCard
-          title="Page Views"
-          value={data.metrics.pageViews.toLocaleString()}
-          color="purple"
-        />
-        <MetricCard
-          title="New Users"
-          value={data.metrics.newUsers.toLocaleString()}
-          color="indigo"
-        />
-        <MetricCard
-          title="Avg Session Duration"
-          value={`${Math.round(data.metrics.avgSessionDuration)}s`}
-          color="orange"
-        />
-        <MetricCard
-          title="Bounce Rate"
-          value={`${data.metrics.bounceRate}%`}
-          color="red"
-        />
-        <MetricCard
-          title="Engagement Rate"
-          value={`${data.metrics.engagementRate}%`}
-          color="teal"
-        />
-      </div>
+      {metrics && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <MetricCard
+            title="Active Users"
+            value={metrics.activeUsers.toLocaleString()}
+            color="blue"
+            change={changeFor(metrics.activeUsers, previous?.activeUsers)}
+          />
+          <MetricCard
+            title="Sessions"
+            value={metrics.sessions.toLocaleString()}
+            color="green"
+            change={changeFor(metrics.sessions, previous?.sessions)}
+          />
+          <MetricCard
+            title="Page Views"
+            value={metrics.pageViews.toLocaleString()}
+            color="purple"
+            change={changeFor(metrics.pageViews, previous?.pageViews)}
+          />
+          <MetricCard
+            title="New Users"
+            value={metrics.newUsers.toLocaleString()}
+            color="indigo"
+            change={changeFor(metrics.newUsers, previous?.newUsers)}
+          />
+          <MetricCard
+            title="Avg Session Duration"
+            value={`${Math.round(metrics.avgSessionDuration)}s`}
+            color="orange"
+            change={changeFor(metrics.avgSessionDuration, previous?.avgSessionDuration)}
+          />
+          <MetricCard
+            title="Bounce Rate"
+            value={`${metrics.bounceRate}%`}
+            color="red"
+            change={changeFor(metrics.bounceRate, previous?.bounceRate, true)}
+          />
+          <MetricCard
+            title="Engagement Rate"
+            value={`${metrics.engagementRate}%`}
+            color="teal"
+            change={changeFor(metrics.engagementRate, previous?.engagementRate)}
+          />
+          <MetricCard
+            title="Key Events"
+            value={metrics.keyEvents.toLocaleString()}
+            color="green"
+            change={changeFor(metrics.keyEvents, previous?.keyEvents)}
+          />
+          <MetricCard
+            title="Conversion Rate"
+            value={`${metrics.conversionRate}%`}
+            color="indigo"
+            change={changeFor(metrics.conversionRate, previous?.conversionRate)}
+          />
+        </div>
+      )}
 
       {/* Traffic Over Time Chart */}
       {timeSeriesFormatted.length > 0 && (
@@ -206,17 +464,40 @@ export function GA4Dashboard() {
               <Line type="monotone" dataKey="activeUsers" stroke="#0088FE" name="Active Users" />
               <Line type="monotone" dataKey="sessions" stroke="#00C49F" name="Sessions" />
               <Line type="monotone" dataKey="pageViews" stroke="#FFBB28" name="Page Views" />
+              {data.comparison && (
+                <>
+                  <Line type="monotone" dataKey="previousActiveUsers" stroke="#0088FE" strokeDasharray="5 5" dot={false} name="Active Users (prior)" />
+                  <Line type="monotone" dataKey="previousSessions" stroke="#00C49F" strokeDasharray="5 5" dot={false} name="Sessions (prior)" />
+                  <Line type="monotone" dataKey="previousPageViews" stroke="#FFBB28" strokeDasharray="5 5" dot={false} name="Page Views (prior)" />
+                </>
+              )}
             </LineChart>
           </ResponsiveContainer>
         </div>
       )}
 
+      {/* Conversions (leads) */}
+      {!data.errors?.keyEvents && (
+        <ConversionsSection
+          keyEvents={data.keyEvents}
+          byChannel={data.conversionsByChannel}
+          trend={timeSeriesFormatted}
+          showPrevious={!!data.comparison}
+        />
+      )}
+
+      {/* What those leads cost in ad spend */}
+      {sections.ads && sections.adsCost && (
+        <LeadEconomics companyId={companyId} dateRange={range} granularity={granularity} />
+      )}
+
       {/* Traffic Sources and Devices Row */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Traffic Sources */}
         {data.trafficSources.length > 0 && (
           <div className="bg-white p-6 rounded-lg shadow border border-gray-200">
-            <h3 className="text-xl font-bold mb-4">Traffic Sources</h3>
+            <h3 className="text-xl font-bold">Traffic Sources</h3>
+            <p className="text-gray-500 text-sm mb-4">Click a channel to see its sources and landing pages</p>
             <ResponsiveContainer width="100%" height={350}>
               <PieChart>
                 <Pie
@@ -226,6 +507,8 @@ export function GA4Dashboard() {
                   cx="40%"
                   cy="50%"
                   outerRadius={110}
+                  onClick={(_, index) => setDrillChannel(data.trafficSources[index].source)}
+                  className="cursor-pointer"
                   label={({ cx, cy, midAngle, innerRadius, outerRadius, percent, sessions }) => {
                     // Only show label if slice is bigger than 8%
                     if (percent <= 0.08) {
@@ -288,14 +571,10 @@ export function GA4Dashboard() {
       </div>
 
       {/* Google Ads Section - Full Width */}
-      <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-8 rounded-lg shadow-lg border-2 border-blue-200">
-        <GoogleAdsMetrics dateRange={{ start: DATE_RANGES[selectedRange].value.start, end: DATE_RANGES[selectedRange].value.end }} />
-      </div>
+      {adsSection}
 
       {/* Metricool Social Media Section - Full Width */}
-      <div className="bg-gradient-to-r from-purple-50 to-pink-50 p-8 rounded-lg shadow-lg border-2 border-purple-200">
-        <MetricoolMetrics dateRange={{ start: DATE_RANGES[selectedRange].value.start, end: DATE_RANGES[selectedRange].value.end }} />
-      </div>
+      {socialSection}
 
       {/* Top Pages Table */}
       {data.topPages.length > 0 && (
@@ -324,25 +603,13 @@ export function GA4Dashboard() {
         </div>
       )}
 
-      {/* Top Countries */}
-      {data.countries.length > 0 && (
-        <div className="bg-white p-6 rounded-lg shadow border border-gray-200">
-          <h3 className="text-xl font-bold mb-4">The Top Countries</h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-            {data.countries.map((country, index) => (
-              <div key={index} className="p-4 bg-gray-50 rounded-lg">
-                <div className="text-gray-600 text-sm">{country.country}</div>
-                <div className="text-2xl font-bold mt-1">{country.users.toLocaleString()}</div>
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
+      {/* Geography */}
+      <GeographySection companyId={companyId} dateRange={range} />
     </div>
   );
 }
 
-function MetricCard({ title, value, color }: { title: string; value: string; color: string }) {
+function MetricCard({ title, value, color, change }: { title: string; value: string; color: string; change?: Change }) {
   const colorClasses: Record<string, string> = {
     blue: 'text-blue-600',
     green: 'text-green-600',
@@ -359,6 +626,7 @@ function MetricCard({ title, value, color }: { title: string; value: string; col
       <div className={`text-3xl font-bold mt-2 ${colorClasses[color]}`}>
         {value}
       </div>
+      {change && <Delta {...change} />}
     </div>
   );
 }
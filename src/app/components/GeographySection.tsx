@@ -0,0 +1,316 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ComposableMap, Geographies, Geography } from 'react-simple-maps';
+import worldAtlas from 'world-atlas/countries-110m.json';
+import { useApiFetch } from '@/utils/apiClient';
+
+interface GeoRow {
+  name: string;
+  activeUsers: number;
+  sessions: number;
+  engagementRate: number;
+  keyEvents: number;
+}
+
+type SortKey = keyof GeoRow;
+
+interface GeoPath {
+  country?: string;
+  region?: string;
+}
+
+// world-atlas and GA4 spell some countries differently; keyed by the atlas name
+const ATLAS_TO_GA4: Record<string, string> = {
+  'United States of America': 'United States',
+  'Dem. Rep. Congo': 'Congo - Kinshasa',
+  Congo: 'Congo - Brazzaville',
+  'Dominican Rep.': 'Dominican Republic',
+  'Central African Rep.': 'Central African Republic',
+  'Eq. Guinea': 'Equatorial Guinea',
+  'S. Sudan': 'South Sudan',
+  'Bosnia and Herz.': 'Bosnia & Herzegovina',
+  Macedonia: 'North Macedonia',
+  Myanmar: 'Myanmar (Burma)',
+  "Côte d'Ivoire": 'Côte d’Ivoire',
+  'Solomon Is.': 'Solomon Islands',
+  'Falkland Is.': 'Falkland Islands',
+  'W. Sahara': 'Western Sahara',
+  Palestine: 'Palestinian Territories',
+};
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'name', label: 'Location' },
+  { key: 'activeUsers', label: 'Users' },
+  { key: 'sessions', label: 'Sessions' },
+  { key: 'engagementRate', label: 'Engagement' },
+  { key: 'keyEvents', label: 'Key Events' },
+];
+
+// A client whose visitors are nearly all in one country starts at its regions
+const DOMINANT_COUNTRY_SHARE = 0.9;
+
+function isDrillable(name: string) {
+  return name !== '(not set)' && name !== '';
+}
+
+type GeoLevel = 'country' | 'region' | 'city';
+
+interface GeoRows {
+  rows: GeoRow[];
+  loading: boolean;
+  error: string | null;
+  // Set while GA4 quota is limited: when the rows are from, or null when
+  // there are no cached rows to show at all
+  limited: { cachedAt: string | null } | null;
+}
+
+const LOADING: GeoRows = { rows: [], loading: true, error: null, limited: null };
+
+interface GeographySectionProps {
+  companyId?: string | null;
+  dateRange: {
+    start: string;
+    end: string;
+  };
+}
+
+async function fetchGeography(
+  apiFetch: ReturnType<typeof useApiFetch>,
+  { companyId, dateRange, level, path }: GeographySectionProps & { level: GeoLevel; path: GeoPath },
+): Promise<GeoRows> {
+  try {
+    const params = new URLSearchParams({
+      metrics: 'activeUsers,sessions,engagementRate,keyEvents',
+      dimensions: level,
+      startDate: dateRange.start,
+      endDate: dateRange.end,
+      orderBy: '-activeUsers',
+      limit: '250',
+    });
+    if (path.country) params.append('filter', `country:exact:${path.country}`);
+    if (path.region) params.append('filter', `region:exact:${path.region}`);
+    if (companyId) params.set('companyId', companyId);
+    const response = await apiFetch(`/api/ga4/report?${params}`);
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      if (errorData.reason === 'quota_limited') {
+        return { rows: [], loading: false, error: null, limited: { cachedAt: null } };
+      }
+      throw new Error(errorData.error || 'Failed to fetch geography data');
+    }
+
+    const result = await response.json();
+    return {
+      rows: result.rows.map((row: any) => ({
+        name: row.dimensions[level] || '(not set)',
+        activeUsers: row.metrics.activeUsers,
+        sessions: row.metrics.sessions,
+        engagementRate: row.metrics.engagementRate * 100,
+        keyEvents: row.metrics.keyEvents,
+      })),
+      loading: false,
+      error: null,
+      limited: result.limited ? { cachedAt: result.cachedAt ?? null } : null,
+    };
+  } catch (err: any) {
+    return { rows: [], loading: false, error: err.message, limited: null };
+  }
+}
+
+export function GeographySection({ companyId, dateRange }: GeographySectionProps) {
+  const [path, setPath] = useState<GeoPath>({});
+  const [countries, setCountries] = useState<GeoRows>(LOADING);
+  const [drilled, setDrilled] = useState<GeoRows>(LOADING);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'activeUsers', desc: true });
+  const autoDrilled = useRef(false);
+  const apiFetch = useApiFetch();
+
+  const level: GeoLevel = path.region ? 'city' : path.country ? 'region' : 'country';
+
+  // Countries feed the map at every drill level, so they follow the date
+  // range on their own rather than only while the country table is shown
+  useEffect(() => {
+    let cancelled = false;
+    setCountries(LOADING);
+
+    fetchGeography(apiFetch, { companyId, dateRange, level: 'country', path: {} }).then((next) => {
+      if (cancelled) return;
+      setCountries(next);
+      const total = next.rows.reduce((sum, row) => sum + row.activeUsers, 0);
+      const top = next.rows[0];
+      if (!autoDrilled.current && top && isDrillable(top.name) && top.activeUsers >= total * DOMINANT_COUNTRY_SHARE) {
+        setPath({ country: top.name });
+      }
+      autoDrilled.current = true;
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiFetch, companyId, dateRange]);
+
+  useEffect(() => {
+    if (level === 'country') return;
+    let cancelled = false;
+    setDrilled(LOADING);
+
+    fetchGeography(apiFetch, { companyId, dateRange, level, path: { country: path.country, region: path.region } })
+      .then((next) => {
+        if (!cancelled) setDrilled(next);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiFetch, companyId, dateRange, level, path.country, path.region]);
+
+  const { rows, loading, error, limited } = level === 'country' ? countries : drilled;
+
+  const sortedRows = [...rows].sort((a, b) => {
+    const order = a[sort.key] < b[sort.key] ? -1 : a[sort.key] > b[sort.key] ? 1 : 0;
+    return sort.desc ? -order : order;
+  });
+
+  const drillInto = (name: string) => {
+    if (!isDrillable(name)) return;
+    if (level === 'country') setPath({ country: name });
+    else if (level === 'region') setPath({ country: path.country, region: name });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border border-gray-200 space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h3 className="text-xl font-bold">Where Visitors Are</h3>
+        <div className="flex items-center gap-2 text-sm">
+          <button onClick={() => setPath({})} className={path.country ? 'text-blue-600 hover:underline' : 'font-semibold'}>
+            All Countries
+          </button>
+          {path.country && (
+            <>
+              <span className="text-gray-400">›</span>
+              <button
+                onClick={() => setPath({ country: path.country })}
+                className={path.region ? 'text-blue-600 hover:underline' : 'font-semibold'}
+              >
+                {path.country}
+              </button>
+            </>
+          )}
+          {path.region && (
+            <>
+              <span className="text-gray-400">›</span>
+              <span className="font-semibold">{path.region}</span>
+            </>
+          )}
+        </div>
+      </div>
+
+      {limited && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-sm">
+          Google Analytics data is temporarily limited.{' '}
+          {limited.cachedAt
+            ? `Showing locations as of ${new Date(limited.cachedAt).toLocaleString()}.`
+            : 'Locations will be back within the hour.'}
+        </div>
+      )}
+
+      <WorldMap rows={countries.rows} selected={path.country} onSelect={(name) => setPath({ country: name })} />
+
+      {loading ? (
+        <div className="text-gray-500 text-sm p-6 text-center">Loading locations...</div>
+      ) : error ? (
+        <div className="text-red-500 text-sm">{error}</div>
+      ) : sortedRows.length === 0 ? (
+        !limited && <div className="text-gray-500 text-sm">No location data for this period</div>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full">
+            <thead className="sticky top-0 bg-white">
+              <tr className="border-b-2 border-gray-200">
+                {COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    onClick={() =>
+                      setSort({ key: column.key, desc: sort.key === column.key ? !sort.desc : column.key !== 'name' })
+                    }
+                    className={`py-3 px-4 font-semibold text-gray-700 cursor-pointer select-none ${column.key === 'name' ? 'text-left' : 'text-right'}`}
+                  >
+                    {column.key === 'name' ? { country: 'Country', region: 'Region', city: 'City' }[level] : column.label}
+                    {sort.key === column.key && (sort.desc ? ' ▼' : ' ▲')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map((row) => {
+                const drillable = level !== 'city' && isDrillable(row.name);
+                return (
+                  <tr
+                    key={row.name}
+                    onClick={drillable ? () => drillInto(row.name) : undefined}
+                    className={`border-b border-gray-100 hover:bg-gray-50 ${drillable ? 'cursor-pointer' : ''}`}
+                  >
+                    <td className={`py-3 px-4 ${drillable ? 'text-blue-600' : ''}`}>{row.name}</td>
+                    <td className="py-3 px-4 text-right font-semibold">{row.activeUsers.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right">{row.sessions.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right">{row.engagementRate.toFixed(2)}%</td>
+                    <td className="py-3 px-4 text-right">{row.keyEvents.toLocaleString()}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function WorldMap({
+  rows,
+  selected,
+  onSelect,
+}: {
+  rows: GeoRow[];
+  selected?: string;
+  onSelect: (country: string) => void;
+}) {
+  const users = new Map(rows.map((row) => [row.name, row.activeUsers]));
+  const max = Math.max(1, ...rows.map((row) => row.activeUsers));
+
+  return (
+    <ComposableMap projectionConfig={{ scale: 140 }} height={380} className="w-full h-auto">
+      <Geographies geography={worldAtlas}>
+        {({ geographies }) =>
+          geographies.map((geo) => {
+            const name = ATLAS_TO_GA4[geo.properties.name] ?? geo.properties.name;
+            const value = users.get(name) ?? 0;
+            // Square root keeps small markets visible next to the home country
+            const intensity = value > 0 ? 0.15 + 0.85 * Math.sqrt(value / max) : 0;
+            const fill = name === selected ? '#F59E0B' : value > 0 ? `rgba(0, 136, 254, ${intensity})` : '#F3F4F6';
+
+            return (
+              <Geography
+                key={geo.rsmKey}
+                geography={geo}
+                onClick={value > 0 ? () => onSelect(name) : undefined}
+                fill={fill}
+                stroke="#D1D5DB"
+                strokeWidth={0.5}
+                style={{
+                  default: { outline: 'none' },
+                  hover: { outline: 'none', fill: value > 0 ? '#0062B8' : fill, cursor: value > 0 ? 'pointer' : 'default' },
+                  pressed: { outline: 'none' },
+                }}
+              >
+                <title>{`${name}: ${value.toLocaleString()} users`}</title>
+              </Geography>
+            );
+          })
+        }
+      </Geographies>
+    </ComposableMap>
+  );
+}
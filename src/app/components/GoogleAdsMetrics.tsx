@@ -1,25 +1,49 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useSearchParams } from 'next/navigation';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useApiFetch } from '@/utils/apiClient';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { formatBucketLabel, type ComparisonMode, type Granularity, type GranularityOption } from '@/utils/dateRanges';
+import { currencySymbol, formatMoney } from '@/utils/money';
+import { AdsCampaignDrilldown } from './AdsCampaignDrilldown';
+import { BudgetPacing, type Pacing } from './BudgetPacing';
+import { Change, Delta } from './Delta';
+import { isTenantNotice, OnboardingNotice, TenantNotice } from './OnboardingNotice';
+
+interface AdsTotals {
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  cost?: number;
+  conversions: number;
+  conversionsValue: number;
+  averageCpc?: number;
+}
 
 interface GoogleAdsData {
   companyId: string;
   companyName: string;
   customerId: string;
+  /** The account's currency, which every amount is in. */
+  currencyCode?: string;
+  timeZone?: string;
   hasGoogleAds?: boolean;
   message?: string;
   dateRange: { startDate: string; endDate: string };
-  metrics?: {
+  granularity?: Granularity;
+  comparison?: {
+    mode: ComparisonMode;
+    dateRange: { startDate: string; endDate: string };
+    metrics: AdsTotals | null;
+  } | null;
+  metrics?: AdsTotals;
+  timeSeries?: Array<{
+    date: string;
     impressions: number;
     clicks: number;
-    ctr: number;
-    cost: number;
     conversions: number;
-    conversionsValue: number;
-    averageCpc: number;
-  };
+    cost?: number;
+  }>;
   campaigns?: Array<{
     id: string;
     name: string;
@@ -27,38 +51,56 @@ interface GoogleAdsData {
     impressions: number;
     clicks: number;
     ctr: number;
-    cost: number;
+    cost?: number;
     conversions: number;
     conversionsValue: number;
   }>;
+  /** Month-to-date spend against budgets; null when cost is hidden. */
+  pacing?: Pacing | null;
 }
 
+const ADS_BENEFITS = [
+  { title: 'Show Up First', body: 'Appear above the map and organic results for searches in your service area.' },
+  { title: 'Pay for Results', body: 'You only pay when someone clicks through to your site or calls you.' },
+  { title: 'See Every Lead', body: 'Clicks, calls and form fills from ads are tracked on this dashboard.' },
+];
+
 interface GoogleAdsMetricsProps {
+  companyId?: string | null;
   dateRange: {
     start: string;
     end: string;
   };
+  compare?: ComparisonMode | '';
+  granularity?: GranularityOption;
 }
 
-export function GoogleAdsMetrics({ dateRange }: GoogleAdsMetricsProps) {
+export function GoogleAdsMetrics({ companyId, dateRange, compare, granularity = 'auto' }: GoogleAdsMetricsProps) {
   const [data, setData] = useState<GoogleAdsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const searchParams = useSearchParams();
+  const [notice, setNotice] = useState<TenantNotice | null>(null);
+  const [selectedCampaign, setSelectedCampaign] = useState<{ id: string; name: string } | null>(null);
+  const apiFetch = useApiFetch();
 
   useEffect(() => {
     async function fetchGoogleAds() {
       setLoading(true);
       setError(null);
+      setNotice(null);
       
       try {
-        const token = searchParams.get('token');
-        const response = await fetch(
-          `/api/google-ads/metrics?token=${token}&startDate=${dateRange.start}&endDate=${dateRange.end}`
+        const response = await apiFetch(
+          `/api/google-ads/metrics?startDate=${dateRange.start}&endDate=${dateRange.end}&granularity=${granularity}${compare ? `&compare=${compare}` : ''}${companyId ? `&companyId=${companyId}` : ''}`
         );
         
         if (!response.ok) {
           const errorData = await response.json();
+          if (isTenantNotice(errorData)) {
+            setData(null);
+            setNotice(errorData);
+            return;
+          }
           throw new Error(errorData.error || 'Failed to fetch Google Ads data');
         }
         
@@ -72,7 +114,7 @@ export function GoogleAdsMetrics({ dateRange }: GoogleAdsMetricsProps) {
     }
 
     fetchGoogleAds();
-  }, [searchParams, dateRange]);
+  }, [apiFetch, dateRange, compare, granularity, companyId]);
 
   if (loading) {
     return (
@@ -82,28 +124,40 @@ export function GoogleAdsMetrics({ dateRange }: GoogleAdsMetricsProps) {
     );
   }
 
-  // Handle case where company doesn't have Google Ads
+  // Not running ads yet: show what they'd get rather than an empty section
   if (data && data.hasGoogleAds === false) {
     return (
-      <div className="text-center py-12">
-        <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-200 mb-4">
-          <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-          </svg>
-        </div>
-        <h3 className="text-2xl font-bold text-gray-700 mb-2">Google Ads Not Configured</h3>
-        <p className="text-gray-500 text-lg mb-6">
-          Google Ads are not set up for <span className="font-semibold">{data.companyName}</span>
-        </p>
-        <div className="inline-block px-6 py-3 bg-blue-50 border border-blue-200 rounded-lg">
-          <p className="text-blue-700 text-sm">
-            To add Google Ads tracking, please contact your account manager.
+      <div className="py-8">
+        <div className="text-center">
+          <h3 className="text-2xl font-bold text-gray-800 mb-2">Reach Customers Searching for You</h3>
+          <p className="text-gray-500 text-lg max-w-prose mx-auto">
+            {data.message || `${data.companyName} isn't running Google Ads yet`}. Search ads put your business at the
+            top of Google when nearby customers look for the services you offer.
           </p>
         </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-8">
+          {ADS_BENEFITS.map((benefit) => (
+            <div key={benefit.title} className="bg-white p-4 rounded-lg shadow border border-gray-200">
+              <div className="font-semibold text-gray-800">{benefit.title}</div>
+              <div className="text-gray-500 text-sm mt-1">{benefit.body}</div>
+            </div>
+          ))}
+        </div>
+        <div className="text-center mt-8">
+          <div className="inline-block px-6 py-3 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="text-blue-700 text-sm">
+              Interested? Your account manager can set up a campaign and its results will appear right here.
+            </p>
+          </div>
+        </div>
       </div>
     );
   }
 
+  if (notice) {
+    return <OnboardingNotice notice={notice} />;
+  }
+
   if (error) {
     return (
       <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
@@ -121,15 +175,42 @@ export function GoogleAdsMetrics({ dateRange }: GoogleAdsMetricsProps) {
     );
   }
 
+  const previous = data.comparison?.metrics;
+  const changeFor = (current: number | undefined, prior: number | undefined, lowerIsBetter = false): Change | undefined =>
+    current === undefined || prior === undefined ? undefined : { current, previous: prior, lowerIsBetter };
+  const money = (value: number) => formatMoney(value, data.currencyCode);
+  const costPerConversion = (totals: AdsTotals | null | undefined) =>
+    totals?.cost !== undefined && totals.conversions > 0 ? totals.cost / totals.conversions : undefined;
+
+  const header = (
+    <div>
+      <h2 className="text-2xl font-bold text-gray-900">Google Ads Performance</h2>
+      <p className="text-gray-500 text-sm mt-1">
+        Customer ID: {data.customerId}
+        {data.currencyCode && data.timeZone && ` · ${data.currencyCode} · days in ${data.timeZone}`}
+      </p>
+    </div>
+  );
+
+  if (selectedCampaign) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <AdsCampaignDrilldown
+          companyId={companyId}
+          campaignId={selectedCampaign.id}
+          campaignName={selectedCampaign.name}
+          dateRange={dateRange}
+          onBack={() => setSelectedCampaign(null)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h2 className="text-2xl font-bold text-gray-900">Google Ads Performance</h2>
-        <p className="text-gray-500 text-sm mt-1">
-          Customer ID: {data.customerId}
-        </p>
-      </div>
+      {header}
 
       {/* Metrics Grid */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -137,44 +218,88 @@ export function GoogleAdsMetrics({ dateRange }: GoogleAdsMetricsProps) {
           title="Impressions"
           value={data.metrics.impressions.toLocaleString()}
           color="blue"
+          change={changeFor(data.metrics.impressions, previous?.impressions)}
         />
         <AdMetricCard
           title="Clicks"
           value={data.metrics.clicks.toLocaleString()}
           color="green"
+          change={changeFor(data.metrics.clicks, previous?.clicks)}
         />
         <AdMetricCard
           title="CTR"
           value={`${data.metrics.ctr.toFixed(2)}%`}
           color="purple"
+          change={changeFor(data.metrics.ctr, previous?.ctr)}
         />
-        <AdMetricCard
-          title="Total Cost"
-          value={`$${data.metrics.cost.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
-          color="orange"
-        />
+        {data.metrics.cost !== undefined && (
+          <AdMetricCard
+            title="Total Cost"
+            value={money(data.metrics.cost)}
+            color="orange"
+            change={changeFor(data.metrics.cost, previous?.cost, true)}
+          />
+        )}
         <AdMetricCard
           title="Conversions"
           value={data.metrics.conversions.toFixed(1)}
           color="indigo"
+          change={changeFor(data.metrics.conversions, previous?.conversions)}
         />
         <AdMetricCard
           title="Conversion Value"
-          value={`$${data.metrics.conversionsValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+          value={money(data.metrics.conversionsValue)}
           color="teal"
+          change={changeFor(data.metrics.conversionsValue, previous?.conversionsValue)}
         />
-        <AdMetricCard
-          title="Avg CPC"
-          value={`$${data.metrics.averageCpc.toFixed(2)}`}
-          color="red"
-        />
-        <AdMetricCard
-          title="Cost/Conv"
-          value={data.metrics.conversions > 0 ? `$${(data.metrics.cost / data.metrics.conversions).toFixed(2)}` : '$0.00'}
-          color="pink"
-        />
+        {data.metrics.averageCpc !== undefined && (
+          <AdMetricCard
+            title="Avg CPC"
+            value={money(data.metrics.averageCpc)}
+            color="red"
+            change={changeFor(data.metrics.averageCpc, previous?.averageCpc, true)}
+          />
+        )}
+        {data.metrics.cost !== undefined && (
+          <AdMetricCard
+            title="Cost/Conv"
+            value={money(data.metrics.conversions > 0 ? data.metrics.cost / data.metrics.conversions : 0)}
+            color="pink"
+            change={changeFor(costPerConversion(data.metrics), costPerConversion(previous), true)}
+          />
+        )}
       </div>
 
+      {/* Budget Pacing */}
+      {data.pacing && <BudgetPacing pacing={data.pacing} currencyCode={data.currencyCode} />}
+
+      {/* Performance Over Time */}
+      {data.timeSeries && data.timeSeries.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow border border-gray-200">
+          <h3 className="text-xl font-bold mb-4">Performance Over Time</h3>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart
+              data={data.timeSeries.map((point) => ({
+                ...point,
+                date: formatBucketLabel(point.date, data.granularity ?? 'day'),
+              }))}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis yAxisId="left" />
+              <YAxis yAxisId="right" orientation="right" />
+              <Tooltip />
+              <Legend />
+              <Line yAxisId="left" type="monotone" dataKey="clicks" stroke="#00C49F" name="Clicks" />
+              <Line yAxisId="right" type="monotone" dataKey="conversions" stroke="#8884D8" name="Conversions" />
+              {data.timeSeries[0].cost !== undefined && (
+                <Line yAxisId="right" type="monotone" dataKey="cost" stroke="#FF8042" name={`Cost (${currencySymbol(data.currencyCode)})`} />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
       {/* Campaign Performance Chart */}
       {data.campaigns && data.campaigns.length > 0 && (
         <div className="bg-white p-6 rounded-lg shadow border border-gray-200">
@@ -200,13 +325,49 @@ export function GoogleAdsMetrics({ dateRange }: GoogleAdsMetricsProps) {
               <Bar dataKey="clicks" fill="#00C49F" name="Clicks" />
             </BarChart>
           </ResponsiveContainer>
+
+          <div className="overflow-x-auto mt-6">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b-2 border-gray-200">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-700">Campaign</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">Impressions</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">Clicks</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">CTR</th>
+                  {data.metrics.cost !== undefined && (
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Cost</th>
+                  )}
+                  <th className="text-right py-3 px-4 font-semibold text-gray-700">Conversions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.campaigns.map((campaign) => (
+                  <tr
+                    key={campaign.id}
+                    onClick={() => setSelectedCampaign({ id: String(campaign.id), name: campaign.name })}
+                    className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="py-3 px-4 text-blue-600">{campaign.name}</td>
+                    <td className="py-3 px-4 text-right">{campaign.impressions.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right font-semibold">{campaign.clicks.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right">{campaign.ctr.toFixed(2)}%</td>
+                    {campaign.cost !== undefined && (
+                      <td className="py-3 px-4 text-right">{money(campaign.cost)}</td>
+                    )}
+                    <td className="py-3 px-4 text-right">{campaign.conversions.toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-400 mt-2">Select a campaign to see its ad groups, keywords and search terms.</p>
+          </div>
         </div>
       )}
     </div>
   );
 }
 
-function AdMetricCard({ title, value, color }: { title: string; value: string; color: string }) {
+function AdMetricCard({ title, value, color, change }: { title: string; value: string; color: string; change?: Change }) {
   const colorClasses: Record<string, string> = {
     blue: 'text-blue-600',
     green: 'text-green-600',
@@ -224,6 +385,7 @@ function AdMetricCard({ title, value, color }: { title: string; value: string; c
       <div className={`text-2xl font-bold mt-2 ${colorClasses[color]}`}>
         {value}
       </div>
+      {change && <Delta {...change} />}
     </div>
   );
 }
@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useApiFetch } from '@/utils/apiClient';
+import { formatBucketLabel, type Granularity, type GranularityOption } from '@/utils/dateRanges';
+import { formatMoney } from '@/utils/money';
+
+interface LeadTotals {
+  cost: number;
+  adsConversions: number;
+  conversionsValue: number;
+  leads: number | null;
+  costPerLead: number | null;
+  costPerConversion: number | null;
+  roas: number | null;
+}
+
+interface LeadEconomicsData {
+  hasGoogleAds: boolean;
+  currencyCode: string;
+  granularity: Granularity;
+  totals: LeadTotals;
+  channels: Array<{
+    channel: string;
+    sessions: number;
+    keyEvents: number;
+    cost: number | null;
+    adsConversions: number | null;
+    costPerLead: number | null;
+    costPerConversion: number | null;
+  }>;
+  campaigns: Array<{
+    id: string;
+    name: string;
+    channel: string;
+    cost: number;
+    adsConversions: number;
+    leads: number | null;
+    costPerLead: number | null;
+    roas: number | null;
+  }>;
+  trend: Array<{
+    date: string;
+    cost: number;
+    leads: number | null;
+    costPerLead: number | null;
+    costPerConversion: number | null;
+  }>;
+  limited: boolean;
+}
+
+interface LeadEconomicsProps {
+  companyId?: string | null;
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  granularity: GranularityOption;
+}
+
+function formatRoas(value: number | null) {
+  return value === null ? '—' : `${value.toFixed(2)}x`;
+}
+
+export function LeadEconomics({ companyId, dateRange, granularity }: LeadEconomicsProps) {
+  const [data, setData] = useState<LeadEconomicsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const apiFetch = useApiFetch();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchLeadEconomics() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({ startDate: dateRange.start, endDate: dateRange.end, granularity });
+        if (companyId) params.set('companyId', companyId);
+        const response = await apiFetch(`/api/lead-economics?${params}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to fetch lead economics');
+        }
+
+        const result = await response.json();
+        if (!cancelled) setData(result);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchLeadEconomics();
+    return () => {
+      cancelled = true;
+    };
+  }, [apiFetch, companyId, dateRange, granularity]);
+
+  // Nothing to cost leads against without Ads; the Ads section has the upsell
+  if (data && !data.hasGoogleAds) return null;
+  const money = (value: number | null) => formatMoney(value, data?.currencyCode);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border border-gray-200 space-y-4">
+      <div>
+        <h3 className="text-xl font-bold">Lead Economics</h3>
+        <p className="text-sm text-gray-500">
+          Google Ads spend against the GA4 key events its clicks led to
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-gray-500 text-sm p-6 text-center">Loading lead economics...</div>
+      ) : error ? (
+        <div className="text-red-500 text-sm">{error}</div>
+      ) : !data ? null : (
+        <>
+          {data.limited && (
+            <div className="text-sm text-yellow-700">
+              Analytics is temporarily limited, so leads may be out of date.
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <Stat title="Ad Spend" value={money(data.totals.cost)} />
+            <Stat title="Leads (GA4)" value={data.totals.leads === null ? '—' : data.totals.leads.toLocaleString()} />
+            <Stat title="Cost per Lead" value={money(data.totals.costPerLead)} />
+            <Stat title="Cost per Ads Conversion" value={money(data.totals.costPerConversion)} />
+            <Stat title="ROAS" value={formatRoas(data.totals.roas)} />
+          </div>
+
+          {data.trend.length > 0 && (
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart
+                data={data.trend.map((point) => ({
+                  ...point,
+                  date: formatBucketLabel(point.date, data.granularity),
+                }))}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis />
+                <Tooltip formatter={(value: number) => money(value)} />
+                <Legend />
+                {data.totals.leads !== null && (
+                  <Line type="monotone" dataKey="costPerLead" stroke="#FF8042" name="Cost per Lead" connectNulls />
+                )}
+                <Line type="monotone" dataKey="costPerConversion" stroke="#8884D8" name="Cost per Ads Conversion" connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+
+          {data.campaigns.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b-2 border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Campaign</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Spend</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Leads</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Cost per Lead</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Ads Conv.</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">ROAS</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.campaigns.map((campaign) => (
+                    <tr key={campaign.id} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4">
+                        <div>{campaign.name}</div>
+                        <div className="text-xs text-gray-400">{campaign.channel}</div>
+                      </td>
+                      <td className="py-3 px-4 text-right font-semibold">{money(campaign.cost)}</td>
+                      <td className="py-3 px-4 text-right">{campaign.leads === null ? '—' : campaign.leads.toLocaleString()}</td>
+                      <td className="py-3 px-4 text-right">{money(campaign.costPerLead)}</td>
+                      <td className="py-3 px-4 text-right">{campaign.adsConversions.toFixed(1)}</td>
+                      <td className="py-3 px-4 text-right">{formatRoas(campaign.roas)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {data.channels.some((channel) => channel.cost !== null) && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b-2 border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Channel</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Sessions</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Key Events</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Ad Spend</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Cost per Key Event</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Ads Conv.</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Cost per Ads Conv.</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.channels.map((channel) => (
+                    <tr key={channel.channel} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4">{channel.channel}</td>
+                      <td className="py-3 px-4 text-right">{channel.sessions.toLocaleString()}</td>
+                      <td className="py-3 px-4 text-right">{channel.keyEvents.toLocaleString()}</td>
+                      <td className="py-3 px-4 text-right">{money(channel.cost)}</td>
+                      <td className="py-3 px-4 text-right">{money(channel.costPerLead)}</td>
+                      <td className="py-3 px-4 text-right">
+                        {channel.adsConversions === null ? '—' : channel.adsConversions.toFixed(1)}
+                      </td>
+                      <td className="py-3 px-4 text-right">{money(channel.costPerConversion)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-400">
+            Leads are GA4 key events from auto-tagged google / cpc sessions; Ads conversions are counted by Google Ads
+            itself, so the two rarely match exactly.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+function Stat({ title, value }: { title: string; value: string }) {
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <div className="text-gray-500 text-xs font-medium">{title}</div>
+      <div className="text-2xl font-bold mt-2 text-blue-600">{value}</div>
+    </div>
+  );
+}
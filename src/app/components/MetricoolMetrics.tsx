@@ -1,8 +1,9 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useApiFetch } from '@/utils/apiClient';
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { isTenantNotice, OnboardingNotice, TenantNotice } from './OnboardingNotice';
 
 interface MetricoolData {
   companyId: string;
@@ -15,31 +16,38 @@ interface MetricoolData {
 }
 
 interface MetricoolMetricsProps {
+  companyId?: string | null;
   dateRange: {
     start: string;
     end: string;
   };
 }
 
-export function MetricoolMetrics({ dateRange }: MetricoolMetricsProps) {
+export function MetricoolMetrics({ companyId, dateRange }: MetricoolMetricsProps) {
   const [data, setData] = useState<MetricoolData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const searchParams = useSearchParams();
+  const [notice, setNotice] = useState<TenantNotice | null>(null);
+  const apiFetch = useApiFetch();
 
   useEffect(() => {
     async function fetchMetricool() {
       setLoading(true);
       setError(null);
+      setNotice(null);
       
       try {
-        const token = searchParams.get('token');
-        const response = await fetch(
-          `/api/metricool/metrics?token=${token}&startDate=${dateRange.start}&endDate=${dateRange.end}`
+        const response = await apiFetch(
+          `/api/metricool/metrics?startDate=${dateRange.start}&endDate=${dateRange.end}${companyId ? `&companyId=${companyId}` : ''}`
         );
         
         if (!response.ok) {
           const errorData = await response.json();
+          if (isTenantNotice(errorData)) {
+            setData(null);
+            setNotice(errorData);
+            return;
+          }
           throw new Error(errorData.error || 'Failed to fetch Metricool data');
         }
         
@@ -53,7 +61,7 @@ export function MetricoolMetrics({ dateRange }: MetricoolMetricsProps) {
     }
 
     fetchMetricool();
-  }, [searchParams, dateRange]);
+  }, [apiFetch, dateRange, companyId]);
 
   if (loading) {
     return (
@@ -63,6 +71,10 @@ export function MetricoolMetrics({ dateRange }: MetricoolMetricsProps) {
     );
   }
 
+  if (notice) {
+    return <OnboardingNotice notice={notice} />;
+  }
+
   if (error) {
     return (
       <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
@@ -0,0 +1,64 @@
+'use client';
+
+import type { DataSource, TenantErrorReason } from '@/utils/tenants';
+
+export interface TenantNotice {
+  error: string;
+  reason: TenantErrorReason;
+  companyId?: string;
+  companyName?: string;
+  source?: DataSource;
+}
+
+// Routes answer 404/409 with a reason when there is no data to show for
+// this company, which is an onboarding state rather than a failure.
+export function isTenantNotice(body: any): body is TenantNotice {
+  return typeof body?.reason === 'string' && typeof body?.error === 'string';
+}
+
+const SOURCE_LABELS: Record<DataSource, string> = {
+  ga4: 'Google Analytics',
+  googleAds: 'Google Ads',
+  metricool: 'Social Media',
+};
+
+function describe(notice: TenantNotice) {
+  switch (notice.reason) {
+    case 'no_company':
+      return {
+        title: 'No Company Selected',
+        body: 'This dashboard shows analytics for a client company. Open it from a client portal to see their numbers.',
+      };
+    case 'not_onboarded':
+      return {
+        title: 'Your Dashboard Is Being Set Up',
+        body: "We're still connecting your marketing accounts. Your account manager will let you know as soon as your analytics are ready.",
+      };
+    default:
+      return {
+        title: `${notice.source ? SOURCE_LABELS[notice.source] : 'This Source'} Not Connected`,
+        body: notice.error,
+      };
+  }
+}
+
+export function OnboardingNotice({ notice }: { notice: TenantNotice }) {
+  const { title, body } = describe(notice);
+
+  return (
+    <div className="text-center py-12">
+      <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-200 mb-4">
+        <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      </div>
+      <h3 className="text-2xl font-bold text-gray-700 mb-2">{title}</h3>
+      <p className="text-gray-500 text-lg mb-6 max-w-prose mx-auto">{body}</p>
+      <div className="inline-block px-6 py-3 bg-blue-50 border border-blue-200 rounded-lg">
+        <p className="text-blue-700 text-sm">
+          Questions? Please contact your account manager.
+        </p>
+      </div>
+    </div>
+  );
+}
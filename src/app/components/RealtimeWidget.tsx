@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useApiFetch } from '@/utils/apiClient';
+
+interface RealtimeData {
+  activeUsers: number;
+  pages: Array<{ title: string; activeUsers: number }>;
+  devices: Array<{ device: string; activeUsers: number }>;
+  fetchedAt: string;
+}
+
+const POLL_INTERVAL_MS = 60_000;
+
+export function RealtimeWidget({ companyId }: { companyId?: string | null }) {
+  const [data, setData] = useState<RealtimeData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [quotaNotice, setQuotaNotice] = useState<string | null>(null);
+  const [paused, setPaused] = useState(false);
+  const apiFetch = useApiFetch();
+
+  // Poll only while the dashboard is on screen; a hidden tab or iframe
+  // stops polling and catches up as soon as it is visible again.
+  useEffect(() => {
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+
+    async function fetchRealtime() {
+      try {
+        const response = await apiFetch(`/api/ga4/realtime${companyId ? `?companyId=${companyId}` : ''}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          // Keep polling; realtime quota refills within the hour
+          if (errorData.reason === 'quota_limited') {
+            if (!cancelled) setQuotaNotice(errorData.error);
+            return;
+          }
+          throw new Error(errorData.error || 'Failed to fetch realtime data');
+        }
+
+        const result = await response.json();
+        if (!cancelled) {
+          setData(result);
+          setError(null);
+          setQuotaNotice(null);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.message);
+      }
+    }
+
+    const start = () => {
+      if (timer) return;
+      setPaused(false);
+      fetchRealtime();
+      timer = setInterval(fetchRealtime, POLL_INTERVAL_MS);
+    };
+    const stop = () => {
+      clearInterval(timer);
+      timer = undefined;
+      setPaused(true);
+    };
+    const handleVisibilityChange = () => (document.hidden ? stop() : start());
+
+    if (!document.hidden) start();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [apiFetch, companyId]);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border border-gray-200">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="flex items-center gap-2">
+          <span className={`inline-block w-2.5 h-2.5 rounded-full ${paused || error || quotaNotice ? 'bg-gray-300' : 'bg-green-500 animate-pulse'}`} />
+          <h3 className="text-xl font-bold">Right Now</h3>
+        </div>
+        <div className="text-xs text-gray-400">
+          {paused
+            ? 'Paused while hidden'
+            : data
+              ? `Updated ${new Date(data.fetchedAt).toLocaleTimeString()}`
+              : 'Loading...'}
+        </div>
+      </div>
+
+      {error && <div className="text-red-500 text-sm mt-2">{error}</div>}
+      {quotaNotice && <div className="text-yellow-700 text-sm mt-2">{quotaNotice}</div>}
+
+      {data && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-4">
+          <div>
+            <div className="text-4xl font-bold text-green-600">{data.activeUsers.toLocaleString()}</div>
+            <div className="text-gray-500 text-sm mt-1">active users in the last 30 minutes</div>
+            {data.devices.length > 0 && (
+              <div className="flex flex-wrap gap-3 mt-3 text-sm">
+                {data.devices.map((device) => (
+                  <span key={device.device} className="px-2 py-1 bg-gray-50 rounded capitalize">
+                    {device.device}: <span className="font-semibold">{device.activeUsers}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="md:col-span-2">
+            {data.pages.length === 0 ? (
+              <div className="text-gray-500 text-sm">Nobody is on the site right now.</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b-2 border-gray-200">
+                    <th className="text-left py-2 px-4 font-semibold text-gray-700">Page</th>
+                    <th className="text-right py-2 px-4 font-semibold text-gray-700">Active Users</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.pages.map((page) => (
+                    <tr key={page.title} className="border-b border-gray-100">
+                      <td className="py-2 px-4">{page.title}</td>
+                      <td className="py-2 px-4 text-right font-semibold">{page.activeUsers}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,412 @@
+'use client';
+
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { useApiFetch } from '@/utils/apiClient';
+import { audiences, defaultAudiences, sections } from '@/utils/sections';
+import type { Audience, Section, SectionVisibility } from '@/utils/sections';
+import type { DataSource, PendingTenant, TenantRegistry } from '@/utils/tenants';
+
+interface TenantsResponse {
+  companies: Array<{ id: string; name: string }>;
+  registry: TenantRegistry;
+}
+
+interface SourceField {
+  id: string;
+  enabled: boolean;
+}
+
+interface TenantRow {
+  companyId: string;
+  name: string;
+  inCopilot: boolean;
+  sources: Record<DataSource, SourceField>;
+  visibility?: SectionVisibility;
+}
+
+const SOURCE_COLUMNS: Array<{ source: DataSource; label: string; idKey: string; placeholder: string }> = [
+  { source: 'ga4', label: 'GA4 Property ID', idKey: 'propertyId', placeholder: '270323387' },
+  { source: 'googleAds', label: 'Google Ads Customer ID', idKey: 'customerId', placeholder: '1234567890' },
+  { source: 'metricool', label: 'Metricool Blog ID', idKey: 'blogId', placeholder: '1920806' },
+];
+
+const SECTION_LABELS: Record<Section, string> = {
+  analytics: 'Website Analytics',
+  ads: 'Google Ads',
+  adsCost: 'Ad Spend & CPC',
+  social: 'Social Media',
+};
+
+const AUDIENCE_LABELS: Record<Audience, string> = {
+  clients: 'All client users',
+  admins: 'Company admins',
+  internal: 'Agency only',
+};
+
+function buildRows({ companies, registry }: TenantsResponse): TenantRow[] {
+  const tenants = new Map(registry.tenants.map((tenant) => [tenant.companyId, tenant]));
+  const rows = companies.map((company) => ({
+    companyId: company.id,
+    name: company.name,
+    inCopilot: true,
+  }));
+  // Keep mappings for companies Copilot no longer lists so they aren't lost on save
+  for (const tenant of registry.tenants) {
+    if (!companies.some((company) => company.id === tenant.companyId)) {
+      rows.push({ companyId: tenant.companyId, name: tenant.name, inCopilot: false });
+    }
+  }
+
+  return rows
+    .map((row) => {
+      const tenant = tenants.get(row.companyId);
+      const sources = {} as Record<DataSource, SourceField>;
+      for (const { source, idKey } of SOURCE_COLUMNS) {
+        const config = tenant?.[source] as Record<string, any> | undefined;
+        sources[source] = {
+          id: config?.[idKey] ?? '',
+          enabled: config?.enabled ?? true,
+        };
+      }
+      return { ...row, sources, visibility: tenant?.visibility };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function toTenants(rows: TenantRow[]) {
+  return rows.flatMap((row) => {
+    const tenant: Record<string, any> = { companyId: row.companyId, name: row.name };
+    for (const { source, idKey } of SOURCE_COLUMNS) {
+      const field = row.sources[source];
+      if (field.id.trim()) {
+        tenant[source] = { [idKey]: field.id.trim(), enabled: field.enabled };
+      }
+    }
+    if (Object.keys(tenant).length === 2) {
+      return [];
+    }
+    if (row.visibility) {
+      tenant.visibility = row.visibility;
+    }
+    return [tenant];
+  });
+}
+
+function describePending(pending: PendingTenant) {
+  return SOURCE_COLUMNS.flatMap(({ source, label, idKey }) => {
+    const config = pending[source] as Record<string, any> | undefined;
+    return config ? [`${label} ${config[idKey]}`] : [];
+  }).join(', ');
+}
+
+export function TenantAdmin() {
+  const [rows, setRows] = useState<TenantRow[]>([]);
+  const [pending, setPending] = useState<PendingTenant[]>([]);
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<Array<{ path: string; message: string }>>([]);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const apiFetch = useApiFetch();
+
+  useEffect(() => {
+    async function fetchTenants() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await apiFetch('/api/tenants');
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to fetch client mappings');
+        }
+
+        const result: TenantsResponse = await response.json();
+        setRows(buildRows(result));
+        setPending(result.registry.pending);
+        setDirty(false);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchTenants();
+  }, [apiFetch]);
+
+  const visibleRows = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return query ? rows.filter((row) => row.name.toLowerCase().includes(query)) : rows;
+  }, [rows, filter]);
+
+  const updateSource = (companyId: string, source: DataSource, change: Partial<SourceField>) => {
+    setRows((current) =>
+      current.map((row) =>
+        row.companyId === companyId
+          ? { ...row, sources: { ...row.sources, [source]: { ...row.sources[source], ...change } } }
+          : row
+      )
+    );
+    setDirty(true);
+    setSavedAt(null);
+  };
+
+  const updateVisibility = (companyId: string, visibility: SectionVisibility) => {
+    setRows((current) =>
+      current.map((row) => (row.companyId === companyId ? { ...row, visibility } : row))
+    );
+    setDirty(true);
+    setSavedAt(null);
+  };
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+    setIssues([]);
+
+    try {
+      const response = await apiFetch('/api/tenants', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenants: toTenants(rows) }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setIssues(result.issues ?? []);
+        throw new Error(result.error || 'Failed to save client mappings');
+      }
+
+      setPending(result.registry.pending);
+      setDirty(false);
+      setSavedAt(new Date());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="text-gray-500 text-lg">Loading client mappings...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h2 className="text-3xl font-bold">Client Data Sources</h2>
+          <p className="text-gray-500 text-sm mt-1">
+            Attach each Copilot company to its analytics accounts. Companies without any ID are not onboarded.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter companies"
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={save}
+            disabled={saving || !dirty}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white font-medium disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      {savedAt && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+          Mappings saved at {savedAt.toLocaleTimeString()}.
+        </div>
+      )}
+
+      {error && (
+        <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
+          <div className="text-red-600 font-semibold text-lg">{error}</div>
+          {issues.length > 0 && (
+            <ul className="text-red-500 text-sm mt-2 list-disc pl-5">
+              {issues.map((issue, index) => (
+                <li key={index}>
+                  {describeIssuePath(issue.path, rows)}: {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow border border-gray-200 overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b-2 border-gray-200">
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Company</th>
+              {SOURCE_COLUMNS.map(({ source, label }) => (
+                <th key={source} className="text-left py-3 px-4 font-semibold text-gray-700">{label}</th>
+              ))}
+              <th className="text-left py-3 px-4 font-semibold text-gray-700">Visibility</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row) => (
+              <Fragment key={row.companyId}>
+                <tr className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-3 px-4">
+                    <div className="font-medium">{row.name}</div>
+                    <div className="text-xs text-gray-400 font-mono">{row.companyId}</div>
+                    {!row.inCopilot && (
+                      <div className="text-xs text-orange-600">Not found in Copilot</div>
+                    )}
+                  </td>
+                  {SOURCE_COLUMNS.map(({ source, placeholder }) => (
+                    <td key={source} className="py-3 px-4">
+                      <div className="flex items-center gap-2">
+                        <input
+                          value={row.sources[source].id}
+                          onChange={(e) => updateSource(row.companyId, source, { id: e.target.value })}
+                          placeholder={placeholder}
+                          inputMode="numeric"
+                          className="w-36 px-2 py-1 border border-gray-300 rounded font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <label className="flex items-center gap-1 text-xs text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={row.sources[source].enabled}
+                            disabled={!row.sources[source].id.trim()}
+                            onChange={(e) => updateSource(row.companyId, source, { enabled: e.target.checked })}
+                          />
+                          Enabled
+                        </label>
+                      </div>
+                    </td>
+                  ))}
+                  <td className="py-3 px-4">
+                    <button
+                      onClick={() => setExpanded(expanded === row.companyId ? null : row.companyId)}
+                      className="text-sm text-blue-600 whitespace-nowrap"
+                    >
+                      {describeVisibility(row.visibility)}
+                    </button>
+                  </td>
+                </tr>
+                {expanded === row.companyId && (
+                  <tr className="border-b border-gray-100 bg-gray-50">
+                    <td colSpan={SOURCE_COLUMNS.length + 2} className="py-4 px-4">
+                      <VisibilityEditor
+                        value={row.visibility}
+                        onChange={(visibility) => updateVisibility(row.companyId, visibility)}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {pending.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow border border-gray-200">
+          <h3 className="text-xl font-bold mb-2">Awaiting a Copilot Company</h3>
+          <p className="text-gray-500 text-sm mb-4">
+            These accounts are known but not attached to a company yet. Entering one of their IDs above onboards them.
+          </p>
+          <ul className="space-y-1 text-sm">
+            {pending.map((entry, index) => (
+              <li key={index}>
+                <span className="font-medium">{entry.name}</span>
+                <span className="text-gray-500"> — {describePending(entry)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function describeVisibility(visibility: SectionVisibility | undefined) {
+  const overrides = Object.keys(visibility?.sections ?? {}).length;
+  const admins = visibility?.companyAdmins.length ?? 0;
+  return overrides || admins
+    ? `${overrides} rule${overrides === 1 ? '' : 's'}, ${admins} admin${admins === 1 ? '' : 's'}`
+    : 'Defaults';
+}
+
+function VisibilityEditor({
+  value,
+  onChange,
+}: {
+  value: SectionVisibility | undefined;
+  onChange: (visibility: SectionVisibility) => void;
+}) {
+  const visibility: SectionVisibility = value ?? { companyAdmins: [], sections: {} };
+
+  const setAudience = (section: Section, audience: string) => {
+    const next = { ...visibility.sections };
+    if (audience) {
+      next[section] = audience as Audience;
+    } else {
+      delete next[section];
+    }
+    onChange({ ...visibility, sections: next });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="space-y-2">
+        <div className="text-sm font-semibold text-gray-700">Who sees each section</div>
+        {sections.map((section) => (
+          <label key={section} className="flex items-center justify-between gap-4 text-sm">
+            <span>{SECTION_LABELS[section]}</span>
+            <select
+              value={visibility.sections[section] ?? ''}
+              onChange={(e) => setAudience(section, e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="">Default ({AUDIENCE_LABELS[defaultAudiences[section]]})</option>
+              {audiences.map((audience) => (
+                <option key={audience} value={audience}>{AUDIENCE_LABELS[audience]}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      <label className="flex flex-col gap-2 text-sm">
+        <span className="font-semibold text-gray-700">Company admins</span>
+        <span className="text-gray-500 text-xs">Copilot client IDs, one per line</span>
+        <textarea
+          defaultValue={visibility.companyAdmins.join('\n')}
+          onBlur={(e) =>
+            onChange({
+              ...visibility,
+              companyAdmins: e.target.value.split(/\s+/).filter(Boolean),
+            })
+          }
+          rows={4}
+          className="px-2 py-1 border border-gray-300 rounded font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+    </div>
+  );
+}
+
+// Issue paths look like "tenants.3.ga4.propertyId"; point at the company instead of the index
+function describeIssuePath(path: string, rows: TenantRow[]) {
+  const [root, index, ...rest] = path.split('.');
+  const tenant = root === 'tenants' ? toTenants(rows)[Number(index)] : undefined;
+  return tenant ? [tenant.name, ...rest].join(' › ') : path;
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useApiFetch } from '@/utils/apiClient';
+
+interface EngagementRow {
+  sessions: number;
+  engagementRate: string;
+  keyEvents: number;
+}
+
+interface TrafficSourceData {
+  channel: string;
+  dateRange: { startDate: string; endDate: string };
+  summary: {
+    sessions: number;
+    engagedSessions: number;
+    engagementRate: string;
+    avgSessionDuration: number;
+    keyEvents: number;
+  } | null;
+  sourceMedium: Array<EngagementRow & { sourceMedium: string }>;
+  landingPages: Array<EngagementRow & { landingPage: string }>;
+  /** Served from cache (or partial) because GA4 quota is running low. */
+  limited?: boolean;
+  cachedAt?: string | null;
+}
+
+interface TrafficSourceDrilldownProps {
+  companyId?: string | null;
+  channel: string;
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  onBack: () => void;
+}
+
+export function TrafficSourceDrilldown({ companyId, channel, dateRange, onBack }: TrafficSourceDrilldownProps) {
+  const [data, setData] = useState<TrafficSourceData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [quotaNotice, setQuotaNotice] = useState<string | null>(null);
+  const apiFetch = useApiFetch();
+
+  useEffect(() => {
+    async function fetchDrilldown() {
+      setLoading(true);
+      setError(null);
+      setQuotaNotice(null);
+
+      try {
+        const params = new URLSearchParams({ channel, startDate: dateRange.start, endDate: dateRange.end });
+        if (companyId) params.set('companyId', companyId);
+        const response = await apiFetch(`/api/ga4/traffic-source?${params}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          if (errorData.reason === 'quota_limited') {
+            setData(null);
+            setQuotaNotice(errorData.error);
+            return;
+          }
+          throw new Error(errorData.error || 'Failed to fetch traffic source data');
+        }
+
+        const result = await response.json();
+        setData(result);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchDrilldown();
+  }, [apiFetch, channel, dateRange, companyId]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 text-sm">
+        <button onClick={onBack} className="text-blue-600 hover:underline">
+          Traffic Sources
+        </button>
+        <span className="text-gray-400">›</span>
+        <span className="font-semibold">{channel}</span>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center p-12">
+          <div className="text-gray-500 text-lg">Loading {channel} traffic...</div>
+        </div>
+      ) : error ? (
+        <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
+          <div className="text-red-600 font-semibold text-lg">Error loading traffic source</div>
+          <div className="text-red-500 text-sm mt-2">{error}</div>
+        </div>
+      ) : quotaNotice ? (
+        <div className="p-6 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+          <div className="font-semibold text-lg">Analytics Temporarily Limited</div>
+          <div className="text-sm mt-2">{quotaNotice}</div>
+        </div>
+      ) : !data || !data.summary ? (
+        <div className="p-6 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="text-gray-600">No {channel} traffic in this period</div>
+        </div>
+      ) : (
+        <>
+          {data.limited && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-sm">
+              Google Analytics data is temporarily limited.{' '}
+              {data.cachedAt
+                ? `Showing results as of ${new Date(data.cachedAt).toLocaleString()}.`
+                : 'Some sections may be missing.'}{' '}
+              Fresh numbers will be back within the hour.
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <SummaryCard title="Sessions" value={data.summary.sessions.toLocaleString()} />
+            <SummaryCard title="Engaged Sessions" value={data.summary.engagedSessions.toLocaleString()} />
+            <SummaryCard title="Engagement Rate" value={`${data.summary.engagementRate}%`} />
+            <SummaryCard title="Avg Session Duration" value={`${Math.round(data.summary.avgSessionDuration)}s`} />
+            <SummaryCard title="Key Events" value={data.summary.keyEvents.toLocaleString()} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <EngagementTable
+              title="Source / Medium"
+              label="Source / Medium"
+              rows={data.sourceMedium.map((row) => ({ ...row, name: row.sourceMedium }))}
+            />
+            <EngagementTable
+              title="Top Landing Pages"
+              label="Landing Page"
+              mono
+              rows={data.landingPages.map((row) => ({ ...row, name: row.landingPage }))}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ title, value }: { title: string; value: string }) {
+  return (
+    <div className="bg-white p-4 rounded-lg shadow border border-gray-200">
+      <div className="text-gray-500 text-xs font-medium">{title}</div>
+      <div className="text-2xl font-bold mt-2 text-blue-600">{value}</div>
+    </div>
+  );
+}
+
+function EngagementTable({
+  title,
+  label,
+  rows,
+  mono = false,
+}: {
+  title: string;
+  label: string;
+  rows: Array<EngagementRow & { name: string }>;
+  mono?: boolean;
+}) {
+  return (
+    <div className="bg-white p-6 rounded-lg shadow border border-gray-200">
+      <h3 className="text-xl font-bold mb-4">{title}</h3>
+      {rows.length === 0 ? (
+        <div className="text-gray-500 text-sm">No data for this period</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b-2 border-gray-200">
+                <th className="text-left py-3 px-4 font-semibold text-gray-700">{label}</th>
+                <th className="text-right py-3 px-4 font-semibold text-gray-700">Sessions</th>
+                <th className="text-right py-3 px-4 font-semibold text-gray-700">Engagement</th>
+                <th className="text-right py-3 px-4 font-semibold text-gray-700">Key Events</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.name} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className={`py-3 px-4 ${mono ? 'text-blue-600 font-mono text-sm' : ''}`}>{row.name}</td>
+                  <td className="py-3 px-4 text-right font-semibold">{row.sessions.toLocaleString()}</td>
+                  <td className="py-3 px-4 text-right">{row.engagementRate}%</td>
+                  <td className="py-3 px-4 text-right">{row.keyEvents.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
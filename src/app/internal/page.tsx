@@ -1,6 +1,9 @@
-import Image from 'next/image';
 import { TokenGate } from '@/components/TokenGate';
 import { Container } from '@/components/Container';
+import { AdsRollup } from '@/app/components/AdsRollup';
+import { AuditLog } from '@/app/components/AuditLog';
+import { TenantAdmin } from '@/app/components/TenantAdmin';
+import { getSession } from '@/utils/session';
 
 /**
  * The revalidate property determine's the cache TTL for this page and
@@ -8,40 +11,18 @@ import { Container } from '@/components/Container';
  */
 export const revalidate = 180;
 
-async function Content() {
-  return (
-    <Container>
-      <div className="w-full items-center justify-between font-mono text-sm lg:flex">
-        <p className="fixed left-0 top-0 flex w-full justify-center lg:static lg:w-auto">
-          Internal Page&nbsp;
-        </p>
-        <div className="fixed bottom-0 left-0 flex h-48 w-full items-end justify-center lg:static lg:h-auto lg:w-auto">
-          <a
-            className="pointer-events-none flex place-items-center gap-2 p-8 lg:pointer-events-auto lg:p-0"
-            href="https://copilot.app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            By{' '}
-            <Image
-              src="/copilot_icon.png"
-              alt="Copilot Icon"
-              className="dark:invert"
-              width={24}
-              height={24}
-              priority
-            />
-          </a>
-        </div>
-      </div>
+async function Content({ searchParams }: { searchParams: SearchParams }) {
+  const { internalUser } = await getSession(searchParams);
+  if (!internalUser) {
+    throw new Error('This page is only available to internal users.');
+  }
 
-      <div className="flex-col mb-32 text-center lg:w-full lg:mb-0 lg:grid-cols-4 lg:text-left">
-        <h2 className={`mb-3 text-2xl font-semibold`}>
-          This page is served to internal users.
-        </h2>
-        <p className={`m-0 max-w-[30ch] text-sm opacity-50`}>
-          This is an example of a page that is served to internal users only.
-        </p>
+  return (
+    <Container className="max-w-screen-xl w-full">
+      <div className="space-y-16">
+        <TenantAdmin />
+        <AdsRollup />
+        <AuditLog />
       </div>
     </Container>
   );
@@ -54,7 +35,7 @@ export default async function Page({
 }) {
   return (
     <TokenGate searchParams={searchParams}>
-      <Content />
+      <Content searchParams={searchParams} />
     </TokenGate>
   );
 }
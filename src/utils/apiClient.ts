@@ -0,0 +1,61 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+let pendingSession: { copilotToken: string; sessionToken: Promise<string> } | null = null;
+
+async function exchangeToken(copilotToken: string) {
+  const response = await fetch('/api/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token: copilotToken }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to start session');
+  }
+
+  const result = await response.json();
+  return result.sessionToken as string;
+}
+
+// Every component on the page shares one exchange per Copilot token
+function getSessionToken(copilotToken: string, refresh: boolean) {
+  if (!pendingSession || refresh || pendingSession.copilotToken !== copilotToken) {
+    const sessionToken = exchangeToken(copilotToken);
+    pendingSession = { copilotToken, sessionToken };
+    sessionToken.catch(() => {
+      pendingSession = null;
+    });
+  }
+  return pendingSession.sessionToken;
+}
+
+/**
+ * Returns a fetch for the app's API routes. The Copilot token from the
+ * page URL is exchanged once for a short-lived session that is sent as a
+ * bearer header, so it never ends up in API URLs or server logs. An
+ * expired session is renewed and the request retried once.
+ */
+export function useApiFetch() {
+  const searchParams = useSearchParams();
+  const copilotToken = searchParams.get('token');
+
+  return useCallback(
+    async (input: string, init: RequestInit = {}) => {
+      const send = async (refresh: boolean) => {
+        const headers = new Headers(init.headers);
+        if (copilotToken) {
+          headers.set('Authorization', `Bearer ${await getSessionToken(copilotToken, refresh)}`);
+        }
+        return fetch(input, { ...init, headers });
+      };
+
+      const response = await send(false);
+      return response.status === 401 && copilotToken ? send(true) : response;
+    },
+    [copilotToken],
+  );
+}
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+import { need } from '@/utils/need';
+
+export const SESSION_COOKIE = 'app_session';
+export const SESSION_TTL_SECONDS = 30 * 60;
+
+const VERSION = 'v1';
+
+function getKey() {
+  const secret = need<string>(
+    process.env.SESSION_SECRET,
+    'SESSION_SECRET is required to issue API sessions',
+  );
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Seals the Copilot token into an encrypted, authenticated session token
+ * that expires after SESSION_TTL_SECONDS. The Copilot token stays inside
+ * so routes can still call Copilot on the user's behalf, but it never has
+ * to appear in an API URL.
+ */
+export function createSessionToken(copilotToken: string) {
+  const expiresAt = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify({ token: copilotToken, exp: expiresAt })),
+    cipher.final(),
+  ]);
+
+  return {
+    sessionToken: [
+      VERSION,
+      iv.toString('base64url'),
+      ciphertext.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+    ].join('.'),
+    expiresAt,
+  };
+}
+
+/**
+ * Returns the Copilot token inside a session token, or null when the
+ * session is malformed, tampered with or expired.
+ */
+export function openSessionToken(sessionToken: string) {
+  const [version, iv, ciphertext, tag] = sessionToken.split('.');
+  if (version !== VERSION || !iv || !ciphertext || !tag) {
+    return null;
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      getKey(),
+      Buffer.from(iv, 'base64url'),
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    const payload = JSON.parse(
+      Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, 'base64url')),
+        decipher.final(),
+      ]).toString('utf8'),
+    );
+
+    if (
+      typeof payload.token !== 'string' ||
+      typeof payload.exp !== 'number' ||
+      payload.exp * 1000 < Date.now()
+    ) {
+      return null;
+    }
+    return payload.token as string;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the session from an `Authorization: Bearer` header, falling back
+ * to the httpOnly cookie for browsers that keep cookies inside the iframe.
+ */
+export function getRequestSessionToken(request: NextRequest) {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return request.cookies.get(SESSION_COOKIE)?.value;
+}
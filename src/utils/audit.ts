@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+import type { DataSource } from '@/utils/tenants';
+
+/**
+ * Every data request is appended as one JSON line. The file is only ever
+ * appended to; nothing in the app rewrites or truncates it.
+ */
+const AUDIT_LOG_PATH =
+  process.env.AUDIT_LOG_PATH ??
+  path.join(process.cwd(), '.data', 'audit.log');
+
+export type AuditOutcome = 'success' | 'denied' | 'unavailable' | 'rejected' | 'error';
+
+export interface AuditRecord {
+  timestamp: string;
+  userId: string;
+  userType: 'client' | 'internal';
+  companyId?: string;
+  companyName?: string;
+  source: DataSource;
+  path: string;
+  dateRange: { startDate?: string; endDate?: string };
+  outcome: AuditOutcome;
+  status: number;
+}
+
+export interface AuditFilter {
+  companyId?: string;
+  userId?: string;
+  source?: DataSource;
+  outcome?: AuditOutcome;
+  /** ISO timestamps, inclusive. */
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export function outcomeForStatus(status: number): AuditOutcome {
+  if (status < 400) return 'success';
+  if (status === 401 || status === 403) return 'denied';
+  if (status === 404 || status === 409) return 'unavailable';
+  if (status < 500) return 'rejected';
+  return 'error';
+}
+
+export async function appendAuditRecord(record: AuditRecord) {
+  await fs.promises.mkdir(path.dirname(AUDIT_LOG_PATH), { recursive: true });
+  await fs.promises.appendFile(AUDIT_LOG_PATH, `${JSON.stringify(record)}\n`);
+}
+
+/**
+ * Reads the log newest first, applying the filter. Lines that fail to
+ * parse (e.g. a partial write) are skipped rather than failing the read.
+ */
+export async function readAuditRecords(filter: AuditFilter = {}) {
+  let contents: string;
+  try {
+    contents = await fs.promises.readFile(AUDIT_LOG_PATH, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  // Compared as instants: ISO strings with and without milliseconds
+  // don't sort the same way
+  const from = filter.from ? Date.parse(filter.from) : undefined;
+  const to = filter.to ? Date.parse(filter.to) : undefined;
+
+  const records: AuditRecord[] = [];
+  const lines = contents.split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (filter.limit && records.length >= filter.limit) break;
+    if (!lines[i].trim()) continue;
+
+    let record: AuditRecord;
+    try {
+      record = JSON.parse(lines[i]);
+    } catch {
+      continue;
+    }
+
+    if (
+      (filter.companyId && record.companyId !== filter.companyId) ||
+      (filter.userId && record.userId !== filter.userId) ||
+      (filter.source && record.source !== filter.source) ||
+      (filter.outcome && record.outcome !== filter.outcome) ||
+      (from !== undefined && Date.parse(record.timestamp) < from) ||
+      (to !== undefined && Date.parse(record.timestamp) > to)
+    ) {
+      continue;
+    }
+    records.push(record);
+  }
+
+  return records;
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'userId',
+  'userType',
+  'companyId',
+  'companyName',
+  'source',
+  'path',
+  'startDate',
+  'endDate',
+  'outcome',
+  'status',
+] as const;
+
+function csvCell(value: unknown) {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditRecordsToCsv(records: AuditRecord[]) {
+  const rows = records.map((record) => {
+    const { dateRange, ...rest } = record;
+    const flat: Record<string, unknown> = { ...rest, ...dateRange };
+    return CSV_COLUMNS.map((column) => csvCell(flat[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
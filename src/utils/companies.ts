@@ -0,0 +1,42 @@
+import type { CopilotAPI } from 'copilot-node-sdk';
+
+export interface CompanySummary {
+  id: string;
+  name: string;
+}
+
+/**
+ * Pages through every non-placeholder company in the workspace.
+ */
+export async function listAllCompanies(copilot: CopilotAPI) {
+  const companies: CompanySummary[] = [];
+  let nextToken: string | undefined;
+  do {
+    const page = await copilot.listCompanies({ limit: 100, nextToken });
+    for (const company of page.data ?? []) {
+      if (company.id && !company.isPlaceholder) {
+        companies.push({
+          id: company.id,
+          name: company.name ?? 'Unnamed company',
+        });
+      }
+    }
+    nextToken = page.nextToken || undefined;
+  } while (nextToken);
+
+  return companies;
+}
+
+/**
+ * Internal users can be limited to a subset of clients in Copilot; those
+ * users may only view the companies on their access list.
+ */
+export function canAccessCompany(
+  internalUser: { isClientAccessLimited?: boolean; companyAccessList?: string[] },
+  companyId: string,
+) {
+  return (
+    !internalUser.isClientAccessLimited ||
+    (internalUser.companyAccessList ?? []).includes(companyId)
+  );
+}
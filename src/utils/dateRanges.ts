@@ -0,0 +1,253 @@
+/**
+ * Date handling shared by the data routes. Requests use GA4's date
+ * syntax ('today', 'yesterday', 'NdaysAgo' or YYYY-MM-DD); sources that
+ * only take calendar dates resolve them here first.
+ */
+
+import { z } from 'zod';
+
+/** Dates in GA4's syntax, as accepted by every data route. */
+export const GA4_DATE_PATTERN =
+  /^(today|yesterday|\d+daysAgo|\d{4}-\d{2}-\d{2})$/;
+
+export const ga4DateSchema = z
+  .string()
+  .trim()
+  .regex(
+    GA4_DATE_PATTERN,
+    'Dates must be today, yesterday, NdaysAgo or YYYY-MM-DD',
+  );
+
+export type ComparisonMode = 'previous' | 'yoy';
+
+export const comparisonModes: ComparisonMode[] = ['previous', 'yoy'];
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toIsoDate(date: Date) {
+  return date.toISOString().split('T')[0];
+}
+
+/** The calendar date (YYYY-MM-DD) it is at `now` in an IANA time zone. */
+function dateInTimeZone(now: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Resolves a GA4-style date to YYYY-MM-DD, counting days from today in
+ * `timeZone` (UTC when not given).
+ */
+export function resolveDate(
+  value: string,
+  now: Date = new Date(),
+  timeZone?: string,
+): string {
+  const today = new Date(
+    `${timeZone ? dateInTimeZone(now, timeZone) : toIsoDate(now)}T00:00:00Z`,
+  );
+  if (value === 'today') {
+    return toIsoDate(today);
+  }
+  if (value === 'yesterday') {
+    return toIsoDate(new Date(today.getTime() - DAY_MS));
+  }
+  const daysAgo = value.match(/^(\d+)daysAgo$/);
+  if (daysAgo) {
+    // A huge N is past what Date can hold; hand it back unresolved so
+    // validation reports it rather than toISOString throwing
+    const date = new Date(today.getTime() - Number(daysAgo[1]) * DAY_MS);
+    return Number.isNaN(date.getTime()) ? value : toIsoDate(date);
+  }
+  return value;
+}
+
+/**
+ * Both ends of a range as calendar dates in `timeZone`, for sources like
+ * Google Ads whose "today" is the account's rather than the server's.
+ */
+export function resolveDateRange(
+  range: DateRange,
+  timeZone?: string,
+  now: Date = new Date(),
+): DateRange {
+  return {
+    startDate: resolveDate(range.startDate, now, timeZone),
+    endDate: resolveDate(range.endDate, now, timeZone),
+  };
+}
+
+/** GA4 has no data before this date, so no property can report on it. */
+export const EARLIEST_DATE = '2015-08-14';
+
+function isCalendarDate(value: string) {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && toIsoDate(date) === value;
+}
+
+/**
+ * Everything wrong with a requested range, empty when it is usable.
+ * Dates up to a day past today (UTC) are allowed so users ahead of UTC
+ * can still ask for their own "today".
+ */
+export function dateRangeIssues(
+  range: DateRange,
+  now: Date = new Date(),
+): Array<{ path: keyof DateRange; message: string }> {
+  const issues: Array<{ path: keyof DateRange; message: string }> = [];
+  const latest = toIsoDate(new Date(now.getTime() + DAY_MS));
+  const resolved = {
+    startDate: resolveDate(range.startDate, now),
+    endDate: resolveDate(range.endDate, now),
+  };
+
+  for (const path of ['startDate', 'endDate'] as const) {
+    const value = resolved[path];
+    if (!isCalendarDate(value)) {
+      issues.push({ path, message: `${value} is not a valid date` });
+    } else if (value > latest) {
+      issues.push({ path, message: `${value} is in the future` });
+    } else if (value < EARLIEST_DATE) {
+      issues.push({ path, message: `Dates before ${EARLIEST_DATE} are not available` });
+    }
+  }
+
+  if (issues.length === 0 && resolved.startDate > resolved.endDate) {
+    issues.push({ path: 'startDate', message: 'startDate must not be after endDate' });
+  }
+
+  return issues;
+}
+
+/** `startDate`/`endDate` query fields, defaulting to the last 30 days. */
+export const dateRangeFields = {
+  startDate: ga4DateSchema.default('30daysAgo'),
+  endDate: ga4DateSchema.default('today'),
+};
+
+/** superRefine step for any schema built on `dateRangeFields`. */
+export function checkDateRange(range: DateRange, ctx: z.RefinementCtx) {
+  for (const issue of dateRangeIssues(range)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [issue.path],
+      message: issue.message,
+    });
+  }
+}
+
+export const dateRangeSchema = z
+  .object(dateRangeFields)
+  .superRefine(checkDateRange);
+
+export function isComparisonMode(value: unknown): value is ComparisonMode {
+  return comparisonModes.includes(value as ComparisonMode);
+}
+
+/**
+ * The window a range is compared against: the same number of days
+ * immediately before it, or the same dates a year earlier.
+ */
+export function comparisonRange(
+  range: DateRange,
+  mode: ComparisonMode,
+): DateRange {
+  const start = new Date(`${resolveDate(range.startDate)}T00:00:00Z`);
+  const end = new Date(`${resolveDate(range.endDate)}T00:00:00Z`);
+
+  if (mode === 'yoy') {
+    start.setUTCFullYear(start.getUTCFullYear() - 1);
+    end.setUTCFullYear(end.getUTCFullYear() - 1);
+    return { startDate: toIsoDate(start), endDate: toIsoDate(end) };
+  }
+
+  const days = rangeLengthInDays(range);
+  return {
+    startDate: toIsoDate(new Date(start.getTime() - days * DAY_MS)),
+    endDate: toIsoDate(new Date(start.getTime() - DAY_MS)),
+  };
+}
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export type GranularityOption = Granularity | 'auto';
+
+export const granularityOptions: GranularityOption[] = [
+  'auto',
+  'day',
+  'week',
+  'month',
+];
+
+export function isGranularityOption(value: unknown): value is GranularityOption {
+  return granularityOptions.includes(value as GranularityOption);
+}
+
+export function rangeLengthInDays(range: DateRange) {
+  const start = new Date(`${resolveDate(range.startDate)}T00:00:00Z`);
+  const end = new Date(`${resolveDate(range.endDate)}T00:00:00Z`);
+  return Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+}
+
+/**
+ * 'auto' keeps charts readable: daily up to about a quarter, weekly up
+ * to about half a year, monthly beyond that.
+ */
+export function resolveGranularity(
+  option: GranularityOption,
+  range: DateRange,
+): Granularity {
+  if (option !== 'auto') return option;
+  const days = rangeLengthInDays(range);
+  if (days <= 92) return 'day';
+  if (days <= 200) return 'week';
+  return 'month';
+}
+
+/**
+ * First day (YYYY-MM-DD) of the bucket a YYYY-MM-DD date falls in, with
+ * weeks starting on Monday as in the Ads API. Lets routes put daily rows
+ * from different sources into the same buckets.
+ */
+export function bucketStart(date: string, granularity: Granularity) {
+  if (granularity === 'month') return `${date.substring(0, 7)}-01`;
+  if (granularity === 'week') {
+    const day = new Date(`${date}T00:00:00Z`);
+    const sinceMonday = (day.getUTCDay() + 6) % 7;
+    return toIsoDate(new Date(day.getTime() - sinceMonday * DAY_MS));
+  }
+  return date;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Chart label for a time-series bucket. Accepts GA4's YYYYMMDD, YYYYWW
+ * and YYYYMM as well as the Ads API's YYYY-MM-DD bucket start dates.
+ */
+export function formatBucketLabel(value: string, granularity: Granularity) {
+  const digits = value.replace(/-/g, '');
+  const year = digits.substring(0, 4);
+  const month = digits.substring(4, 6);
+  const day = digits.substring(6, 8);
+
+  if (granularity === 'month' && month) {
+    return `${MONTH_NAMES[Number(month) - 1] ?? month} ${year}`;
+  }
+  if (granularity === 'week') {
+    return day ? `Wk of ${month}/${day}` : `Wk ${month} '${year.substring(2)}`;
+  }
+  return day ? `${month}/${day}` : value;
+}
@@ -0,0 +1,97 @@
+import type { protos } from '@google-analytics/data';
+
+export type PropertyQuota = protos.google.analytics.data.v1beta.IPropertyQuota;
+
+export interface QuotaSnapshot {
+  tokensPerHour: { consumed: number; remaining: number } | null;
+  tokensPerDay: { consumed: number; remaining: number } | null;
+  checkedAt: string;
+}
+
+/** What the routes tell the UI about how fresh their GA4 data is. */
+export interface QuotaState {
+  /** True when GA4 quota ran low and data was withheld or served from cache. */
+  limited: boolean;
+  /** When the served data was fetched, if it came from the cache. */
+  cachedAt: string | null;
+  quota: QuotaSnapshot | null;
+}
+
+export const QUOTA_LIMITED_MESSAGE =
+  'Google Analytics data is temporarily limited. Please check back within the hour.';
+
+/** Below this share of hourly or daily tokens left, cached data is served. */
+const LOW_QUOTA_SHARE = 0.1;
+
+/** Hourly quota refills, so a snapshot older than this says nothing. */
+const SNAPSHOT_MAX_AGE_MS = 60 * 60 * 1000;
+
+/** Cached reports older than this aren't worth showing even when limited. */
+const CACHE_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+const MAX_CACHE_ENTRIES = 200;
+
+/** gRPC RESOURCE_EXHAUSTED, which GA4 answers with once quota is spent. */
+const RESOURCE_EXHAUSTED = 8;
+
+// Both maps live for the life of the server process, keyed by property
+const snapshots = new Map<string, QuotaSnapshot>();
+const reportCache = new Map<string, { value: unknown; storedAt: number }>();
+
+function toStatus(status?: protos.google.analytics.data.v1beta.IQuotaStatus | null) {
+  return status
+    ? { consumed: status.consumed ?? 0, remaining: status.remaining ?? 0 }
+    : null;
+}
+
+export function recordPropertyQuota(property: string, quota: PropertyQuota) {
+  const snapshot: QuotaSnapshot = {
+    tokensPerHour: toStatus(quota.tokensPerHour),
+    tokensPerDay: toStatus(quota.tokensPerDay),
+    checkedAt: new Date().toISOString(),
+  };
+  snapshots.set(property, snapshot);
+  console.log(
+    `GA4 quota for ${property}: ${snapshot.tokensPerHour?.remaining ?? '?'} tokens left this hour, ` +
+      `${snapshot.tokensPerDay?.remaining ?? '?'} today`,
+  );
+  return snapshot;
+}
+
+export function getQuotaSnapshot(property: string) {
+  const snapshot = snapshots.get(property);
+  if (!snapshot) return null;
+  const age = Date.now() - new Date(snapshot.checkedAt).getTime();
+  return age < SNAPSHOT_MAX_AGE_MS ? snapshot : null;
+}
+
+export function isQuotaLow(snapshot: QuotaSnapshot | null) {
+  if (!snapshot) return false;
+  return [snapshot.tokensPerHour, snapshot.tokensPerDay].some(
+    (status) =>
+      status !== null &&
+      status.remaining < (status.consumed + status.remaining) * LOW_QUOTA_SHARE,
+  );
+}
+
+export function isQuotaError(error: any) {
+  return (
+    error?.code === RESOURCE_EXHAUSTED ||
+    /quota|exhausted/i.test(error?.message ?? '')
+  );
+}
+
+export function getCachedReports<T>(key: string) {
+  const entry = reportCache.get(key);
+  if (!entry || Date.now() - entry.storedAt > CACHE_MAX_AGE_MS) return null;
+  return { value: entry.value as T, cachedAt: new Date(entry.storedAt).toISOString() };
+}
+
+export function cacheReports(key: string, value: unknown) {
+  // Re-inserting moves the key to the end, so the first key is the oldest
+  reportCache.delete(key);
+  reportCache.set(key, { value, storedAt: Date.now() });
+  if (reportCache.size > MAX_CACHE_ENTRIES) {
+    reportCache.delete(reportCache.keys().next().value as string);
+  }
+}
@@ -0,0 +1,211 @@
+import { BetaAnalyticsDataClient, type protos } from '@google-analytics/data';
+import {
+  cacheReports,
+  getCachedReports,
+  getQuotaSnapshot,
+  isQuotaError,
+  isQuotaLow,
+  recordPropertyQuota,
+  type QuotaSnapshot,
+  type QuotaState,
+} from '@/utils/ga4Quota';
+
+export type ReportRequest = protos.google.analytics.data.v1beta.IRunReportRequest;
+export type ReportResponse =
+  protos.google.analytics.data.v1beta.IRunReportResponse;
+export type ReportRow = protos.google.analytics.data.v1beta.IRow;
+
+export function createAnalyticsClient() {
+  const credentials = JSON.parse(process.env.GA4_SERVICE_ACCOUNT || '{}');
+  return new BetaAnalyticsDataClient({ credentials });
+}
+
+/** GA4 rejects a `batchRunReports` call with more than five requests. */
+const MAX_BATCH_SIZE = 5;
+
+export interface ReportTiming {
+  report: string;
+  /** Batch the report went out in; `null` when it was retried on its own. */
+  batch: number | null;
+  ms: number;
+  ok: boolean;
+}
+
+export interface BatchedReports<K extends string> {
+  responses: Partial<Record<K, ReportResponse>>;
+  errors: Partial<Record<K, string>>;
+  timings: ReportTiming[];
+  totalMs: number;
+  /** Property quota as reported alongside the latest response. */
+  quota: QuotaSnapshot | null;
+  /** True when any report was refused because quota ran out. */
+  quotaExhausted: boolean;
+}
+
+async function timed<T>(run: () => Promise<T>) {
+  const start = performance.now();
+  try {
+    return { value: await run(), ms: performance.now() - start };
+  } catch (error) {
+    throw Object.assign(error as object, { ms: performance.now() - start });
+  }
+}
+
+/**
+ * Runs named reports for one property through `batchRunReports`, in as
+ * many parallel batches as the five-per-batch limit needs. A failed batch
+ * takes every report in it down, so its reports are retried individually
+ * and only the ones that fail again are reported as errors; the rest of
+ * the dashboard still gets its data.
+ */
+export async function runBatchedReports<K extends string>(
+  client: BetaAnalyticsDataClient,
+  property: string,
+  requests: Record<K, ReportRequest>,
+): Promise<BatchedReports<K>> {
+  const names = Object.keys(requests) as K[];
+  const batches: K[][] = [];
+  for (let i = 0; i < names.length; i += MAX_BATCH_SIZE) {
+    batches.push(names.slice(i, i + MAX_BATCH_SIZE));
+  }
+
+  const result: BatchedReports<K> = {
+    responses: {},
+    errors: {},
+    timings: [],
+    totalMs: 0,
+    quota: null,
+    quotaExhausted: false,
+  };
+  const start = performance.now();
+
+  const recordQuota = (response: ReportResponse) => {
+    if (response.propertyQuota) {
+      result.quota = recordPropertyQuota(property, response.propertyQuota);
+    }
+  };
+
+  await Promise.all(
+    batches.map(async (batch, batchIndex) => {
+      try {
+        const { value, ms } = await timed(() =>
+          client.batchRunReports({
+            property,
+            requests: batch.map((name) => ({
+              ...requests[name],
+              returnPropertyQuota: true,
+            })),
+          }),
+        );
+        const [response] = value;
+        batch.forEach((name, index) => {
+          result.responses[name] = response.reports?.[index] ?? {};
+          result.timings.push({ report: name, batch: batchIndex, ms, ok: true });
+        });
+        recordQuota(response.reports?.[0] ?? {});
+      } catch (batchError: any) {
+        // Retrying can't help once quota is spent, and would only spend more
+        if (isQuotaError(batchError)) {
+          console.error(`GA4 batch ${batchIndex} refused, quota exhausted:`, batchError.message);
+          result.quotaExhausted = true;
+          batch.forEach((name) => {
+            result.errors[name] = batchError.message ?? 'Quota exhausted';
+            result.timings.push({ report: name, batch: batchIndex, ms: batchError.ms ?? 0, ok: false });
+          });
+          return;
+        }
+        console.error(
+          `GA4 batch ${batchIndex} (${batch.join(', ')}) failed, retrying individually:`,
+          batchError.message,
+        );
+        await Promise.all(
+          batch.map(async (name) => {
+            try {
+              const { value, ms } = await timed(() =>
+                client.runReport({
+                  property,
+                  ...requests[name],
+                  returnPropertyQuota: true,
+                }),
+              );
+              result.responses[name] = value[0];
+              result.timings.push({ report: name, batch: null, ms, ok: true });
+              recordQuota(value[0]);
+            } catch (error: any) {
+              if (isQuotaError(error)) result.quotaExhausted = true;
+              result.errors[name] = error.message ?? 'Report failed';
+              result.timings.push({
+                report: name,
+                batch: null,
+                ms: error.ms ?? 0,
+                ok: false,
+              });
+            }
+          }),
+        );
+      }
+    }),
+  );
+
+  result.totalMs = performance.now() - start;
+  return result;
+}
+
+/**
+ * `runBatchedReports` that degrades instead of failing when the
+ * property's GA4 token quota runs low: while the last known quota is
+ * below the threshold, or once GA4 refuses a report for quota, the last
+ * complete result for the same requests is served from memory and the
+ * result is flagged as `limited`. Without a cached result the fresh,
+ * possibly partial, result is returned, still flagged.
+ */
+export async function runQuotaAwareReports<K extends string>(
+  client: BetaAnalyticsDataClient,
+  property: string,
+  requests: Record<K, ReportRequest>,
+): Promise<BatchedReports<K> & QuotaState> {
+  const key = `${property}:${JSON.stringify(requests)}`;
+  const cached = getCachedReports<BatchedReports<K>>(key);
+  const snapshot = getQuotaSnapshot(property);
+
+  const fromCache = (quota: QuotaSnapshot | null) => ({
+    ...cached!.value,
+    timings: [],
+    totalMs: 0,
+    limited: true,
+    cachedAt: cached!.cachedAt,
+    quota,
+  });
+
+  if (cached && isQuotaLow(snapshot)) {
+    console.warn(`GA4 quota low for ${property}, serving cached reports from ${cached.cachedAt}`);
+    return fromCache(snapshot);
+  }
+
+  const reports = await runBatchedReports(client, property, requests);
+  const quota = reports.quota ?? snapshot;
+
+  if (reports.quotaExhausted) {
+    if (cached) {
+      console.warn(`GA4 quota exhausted for ${property}, serving cached reports from ${cached.cachedAt}`);
+      return fromCache(quota);
+    }
+    return { ...reports, limited: true, cachedAt: null, quota };
+  }
+
+  if (Object.keys(reports.errors).length === 0) {
+    cacheReports(key, reports);
+  }
+  return { ...reports, limited: false, cachedAt: null, quota };
+}
+
+/** Formats report timings as a `Server-Timing` header value. */
+export function serverTimingHeader(reports: BatchedReports<string>) {
+  return [
+    ...reports.timings.map(
+      ({ report, ms, ok }) =>
+        `${report};dur=${ms.toFixed(1)}${ok ? '' : ';desc="failed"'}`,
+    ),
+    `total;dur=${reports.totalMs.toFixed(1)}`,
+  ].join(', ');
+}
@@ -0,0 +1,169 @@
+/**
+ * A small typed builder for Google Ads Query Language. Ads routes
+ * compose queries from a `GaqlQuery` instead of interpolating strings,
+ * so field names, literals and date ranges are checked in one place.
+ */
+
+import { dateRangeIssues, resolveDate, type DateRange } from '@/utils/dateRanges';
+
+/** Resources the Ads routes report on. */
+export type GaqlResource =
+  | 'customer'
+  | 'campaign'
+  | 'campaign_budget'
+  | 'ad_group'
+  | 'keyword_view'
+  | 'search_term_view';
+
+type FieldPrefix =
+  | 'metrics'
+  | 'segments'
+  | 'customer'
+  | 'campaign'
+  | 'campaign_budget'
+  | 'ad_group'
+  | 'ad_group_criterion'
+  | 'search_term_view';
+
+export type GaqlField = `${FieldPrefix}.${string}`;
+
+/** IDs are int64, so pass them as `bigint` rather than risking a `number`. */
+export type GaqlValue = string | number | bigint | boolean;
+
+export type GaqlCondition =
+  | {
+      field: GaqlField;
+      op: '=' | '!=' | '>' | '>=' | '<' | '<=' | 'LIKE' | 'NOT LIKE';
+      value: GaqlValue;
+    }
+  | { field: GaqlField; op: 'IN' | 'NOT IN'; value: GaqlValue[] }
+  | { field: GaqlField; op: 'IS NULL' | 'IS NOT NULL' };
+
+/** Predefined ranges, which Ads resolves in the account's own time zone. */
+export type GaqlDuring =
+  | 'TODAY'
+  | 'YESTERDAY'
+  | 'LAST_7_DAYS'
+  | 'LAST_30_DAYS'
+  | 'THIS_MONTH'
+  | 'LAST_MONTH';
+
+export interface GaqlQuery {
+  select: GaqlField[];
+  from: GaqlResource;
+  /**
+   * GA4-style dates, turned into `segments.date BETWEEN ...`. Relative
+   * dates resolve in UTC; resolve them in the account's time zone first.
+   */
+  dateRange?: DateRange;
+  /** Alternative to `dateRange`: `segments.date DURING ...`. */
+  during?: GaqlDuring;
+  where?: GaqlCondition[];
+  orderBy?: Array<{ field: GaqlField; desc?: boolean }>;
+  limit?: number;
+}
+
+export class GaqlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GaqlError';
+  }
+}
+
+const FIELD_PATTERN = /^[a-z_]+(\.[a-z_]+)+$/;
+
+/** Ads allows at most this many rows per query. */
+const MAX_LIMIT = 10000;
+
+function field(name: string) {
+  if (!FIELD_PATTERN.test(name)) {
+    throw new GaqlError(`Invalid GAQL field "${name}"`);
+  }
+  return name;
+}
+
+function literal(value: GaqlValue) {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new GaqlError(`Invalid GAQL number ${value}`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function condition(where: GaqlCondition) {
+  const name = field(where.field);
+  switch (where.op) {
+    case 'IS NULL':
+    case 'IS NOT NULL':
+      return `${name} ${where.op}`;
+    case 'IN':
+    case 'NOT IN':
+      if (where.value.length === 0) {
+        throw new GaqlError(`${where.op} needs at least one value for ${name}`);
+      }
+      return `${name} ${where.op} (${where.value.map(literal).join(', ')})`;
+    default:
+      return `${name} ${where.op} ${literal(where.value)}`;
+  }
+}
+
+/**
+ * Resolves and checks a date range for `segments.date`, returning
+ * YYYY-MM-DD dates.
+ */
+export function gaqlDateRange(range: DateRange): DateRange {
+  const issues = dateRangeIssues(range);
+  if (issues.length > 0) {
+    throw new GaqlError(`Invalid date range: ${issues.map((issue) => issue.message).join(', ')}`);
+  }
+  return { startDate: resolveDate(range.startDate), endDate: resolveDate(range.endDate) };
+}
+
+export function buildGaqlQuery(query: GaqlQuery) {
+  if (query.select.length === 0) {
+    throw new GaqlError('A GAQL query needs at least one field');
+  }
+
+  const conditions = (query.where ?? []).map(condition);
+  if (query.dateRange && query.during) {
+    throw new GaqlError('A GAQL query takes a dateRange or a during range, not both');
+  }
+  if (query.during) {
+    conditions.unshift(`segments.date DURING ${query.during}`);
+  }
+  if (query.dateRange) {
+    const { startDate, endDate } = gaqlDateRange(query.dateRange);
+    conditions.unshift(`segments.date BETWEEN ${literal(startDate)} AND ${literal(endDate)}`);
+  }
+
+  const clauses = [
+    `SELECT ${query.select.map(field).join(', ')}`,
+    `FROM ${query.from}`,
+  ];
+  if (conditions.length > 0) {
+    clauses.push(`WHERE ${conditions.join(' AND ')}`);
+  }
+  if (query.orderBy?.length) {
+    clauses.push(
+      `ORDER BY ${query.orderBy
+        .map((order) => `${field(order.field)} ${order.desc ? 'DESC' : 'ASC'}`)
+        .join(', ')}`,
+    );
+  }
+  if (query.limit !== undefined) {
+    if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_LIMIT) {
+      throw new GaqlError(`GAQL limit must be between 1 and ${MAX_LIMIT}`);
+    }
+    clauses.push(`LIMIT ${query.limit}`);
+  }
+
+  return clauses.join(' ');
+}
@@ -0,0 +1,75 @@
+import { GoogleAdsApi, type Customer } from 'google-ads-api';
+import { buildGaqlQuery } from '@/utils/gaql';
+
+/** Environment every Google Ads route needs, for `withSession`'s `env`. */
+export const GOOGLE_ADS_ENV = [
+  'GOOGLE_ADS_CLIENT_ID',
+  'GOOGLE_ADS_CLIENT_SECRET',
+  'GOOGLE_ADS_DEVELOPER_TOKEN',
+  'GOOGLE_ADS_REFRESH_TOKEN',
+];
+
+/** An Ads API customer for one account, through the agency's manager login. */
+export function createAdsCustomer(customerId: string) {
+  const client = new GoogleAdsApi({
+    client_id: process.env.GOOGLE_ADS_CLIENT_ID ?? '',
+    client_secret: process.env.GOOGLE_ADS_CLIENT_SECRET ?? '',
+    developer_token: process.env.GOOGLE_ADS_DEVELOPER_TOKEN ?? '',
+  });
+  return client.Customer({
+    customer_id: customerId,
+    refresh_token: process.env.GOOGLE_ADS_REFRESH_TOKEN ?? '',
+    login_customer_id: process.env.GOOGLE_ADS_LOGIN_CUSTOMER_ID ?? undefined,
+  });
+}
+
+/**
+ * Query rows carry enums as numbers; turns one into its name, e.g.
+ * `enumName(enums.CampaignStatus, 2)` is 'ENABLED'.
+ */
+export function enumName(enumObject: Record<string | number, string | number>, value: unknown) {
+  return typeof value === 'number' ? String(enumObject[value] ?? value) : String(value ?? 'UNKNOWN');
+}
+
+/** Account settings every figure from an Ads account depends on. */
+export interface AdsAccount {
+  /** ISO 4217 code all of the account's money is reported in. */
+  currencyCode: string;
+  /** IANA time zone the account's days (and DURING ranges) follow. */
+  timeZone: string;
+}
+
+// Neither setting can be changed once an account is created
+const accounts = new Map<string, AdsAccount>();
+
+/**
+ * The account's currency and time zone, fetched once per customer ID.
+ * Relative dates should be resolved in `timeZone` (see
+ * `resolveDateRange`) so "today" is the account's today, not the server's.
+ */
+export async function getAdsAccount(customer: Customer, customerId: string) {
+  const cached = accounts.get(customerId);
+  if (cached) return cached;
+
+  const [row] = (await customer.query(
+    buildGaqlQuery({
+      select: ['customer.currency_code', 'customer.time_zone'],
+      from: 'customer',
+      limit: 1,
+    }),
+  )) as any[];
+  // Only a real answer is cached; an empty one falls back for this
+  // request alone and is asked again next time
+  if (!row?.customer?.currency_code || !row?.customer?.time_zone) {
+    return {
+      currencyCode: row?.customer?.currency_code || 'USD',
+      timeZone: row?.customer?.time_zone || 'UTC',
+    };
+  }
+  const account: AdsAccount = {
+    currencyCode: row.customer.currency_code,
+    timeZone: row.customer.time_zone,
+  };
+  accounts.set(customerId, account);
+  return account;
+}
@@ -0,0 +1,18 @@
+/**
+ * Money from Google Ads, formatted in the account's own currency. The
+ * Ads routes return `currencyCode` next to every amount; USD is only the
+ * fallback for responses without one.
+ */
+export function formatMoney(value: number | null, currencyCode = 'USD') {
+  if (value === null) return '—';
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currencyCode }).format(value);
+}
+
+/** The bare symbol, e.g. '$' or '€', for chart and column labels. */
+export function currencySymbol(currencyCode = 'USD') {
+  return (
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: currencyCode })
+      .formatToParts(0)
+      .find((part) => part.type === 'currency')?.value ?? currencyCode
+  );
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import type { DataSource, Tenant } from '@/utils/tenants';
+
+/**
+ * Parts of the dashboard that can be shown or hidden per tenant.
+ * `adsCost` covers spend, CPC and cost per conversion inside the Ads
+ * section rather than a section of its own.
+ */
+export const sections = ['analytics', 'ads', 'adsCost', 'social'] as const;
+
+export type Section = (typeof sections)[number];
+
+/**
+ * Who a section is shown to: every client user of the company, only the
+ * company's admins, or agency staff only. Internal users see everything.
+ */
+export const audiences = ['clients', 'admins', 'internal'] as const;
+
+export type Audience = (typeof audiences)[number];
+
+export const sectionVisibilitySchema = z
+  .object({
+    /** Copilot client IDs treated as this company's admins. */
+    companyAdmins: z.array(z.string().uuid()).default([]),
+    sections: z
+      .object({
+        analytics: z.enum(audiences).optional(),
+        ads: z.enum(audiences).optional(),
+        adsCost: z.enum(audiences).optional(),
+        social: z.enum(audiences).optional(),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+export type SectionVisibility = z.infer<typeof sectionVisibilitySchema>;
+
+// Every client user saw spend before visibility rules existed, so tenants
+// opt in to limiting it rather than losing it on upgrade
+export const defaultAudiences: Record<Section, Audience> = {
+  analytics: 'clients',
+  ads: 'clients',
+  adsCost: 'clients',
+  social: 'clients',
+};
+
+export const sourceSections: Record<DataSource, Section> = {
+  ga4: 'analytics',
+  googleAds: 'ads',
+  metricool: 'social',
+};
+
+export type SectionAccess = Record<Section, boolean>;
+
+/**
+ * Works out which sections a user may see for a tenant. This is the only
+ * place visibility is decided; routes enforce it and the dashboard only
+ * mirrors it.
+ */
+export function resolveSectionAccess(
+  tenant: Tenant,
+  viewer: { userType: 'client' | 'internal'; userId: string },
+): SectionAccess {
+  const isAdmin =
+    tenant.visibility?.companyAdmins.includes(viewer.userId) ?? false;
+
+  return Object.fromEntries(
+    sections.map((section) => {
+      const audience =
+        tenant.visibility?.sections[section] ?? defaultAudiences[section];
+      const allowed =
+        viewer.userType === 'internal' ||
+        audience === 'clients' ||
+        (audience === 'admins' && isAdmin);
+      return [section, allowed];
+    }),
+  ) as SectionAccess;
+}
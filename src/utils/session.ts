@@ -1,6 +1,17 @@
-import { copilotApi } from 'copilot-node-sdk';
+import { copilotApi, type CopilotAPI } from 'copilot-node-sdk';
 import { need } from '@/utils/need';
 
+export type TokenPayload = NonNullable<
+  Awaited<ReturnType<NonNullable<CopilotAPI['getTokenPayload']>>>
+>;
+
+export interface SessionData {
+  workspace: Awaited<ReturnType<CopilotAPI['retrieveWorkspace']>>;
+  client?: Awaited<ReturnType<CopilotAPI['retrieveClient']>>;
+  company?: Awaited<ReturnType<CopilotAPI['retrieveCompany']>>;
+  internalUser?: Awaited<ReturnType<CopilotAPI['retrieveInternalUser']>>;
+}
+
 /**
  * A helper function that instantiates the Copilot SDK and fetches data
  * from the Copilot API based on the contents of the token that gets
@@ -22,29 +33,31 @@ export async function getSession(searchParams: SearchParams) {
         : undefined,
   });
 
-  const data: {
-    workspace: Awaited<ReturnType<typeof copilot.retrieveWorkspace>>;
-    client?: Awaited<ReturnType<typeof copilot.retrieveClient>>;
-    company?: Awaited<ReturnType<typeof copilot.retrieveCompany>>;
-    internalUser?: Awaited<ReturnType<typeof copilot.retrieveInternalUser>>;
-  } = {
-    workspace: await copilot.retrieveWorkspace(),
-  };
-  const tokenPayload = await copilot.getTokenPayload?.();
+  return retrieveSessionData(copilot, await copilot.getTokenPayload?.());
+}
 
-  if (tokenPayload?.clientId) {
-    data.client = await copilot.retrieveClient({ id: tokenPayload.clientId });
-  }
-  if (tokenPayload?.companyId) {
-    data.company = await copilot.retrieveCompany({
-      id: tokenPayload.companyId,
-    });
-  }
-  if (tokenPayload?.internalUserId) {
-    data.internalUser = await copilot.retrieveInternalUser({
-      id: tokenPayload.internalUserId,
-    });
-  }
+/**
+ * Fetches the workspace and whichever users and company the token
+ * payload refers to. The SDK is a shared singleton, so read the payload
+ * right after `copilotApi()` and pass it in rather than calling
+ * `getTokenPayload` again after other awaits.
+ */
+export async function retrieveSessionData(
+  copilot: CopilotAPI,
+  tokenPayload: TokenPayload | undefined,
+): Promise<SessionData> {
+  const [workspace, client, company, internalUser] = await Promise.all([
+    copilot.retrieveWorkspace(),
+    tokenPayload?.clientId
+      ? copilot.retrieveClient({ id: tokenPayload.clientId })
+      : undefined,
+    tokenPayload?.companyId
+      ? copilot.retrieveCompany({ id: tokenPayload.companyId })
+      : undefined,
+    tokenPayload?.internalUserId
+      ? copilot.retrieveInternalUser({ id: tokenPayload.internalUserId })
+      : undefined,
+  ]);
 
-  return data;
+  return { workspace, client, company, internalUser };
 }
@@ -0,0 +1,333 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import tenantsConfig from '@/config/tenants.json';
+import { sectionVisibilitySchema } from '@/utils/sections';
+
+const numericId = (label: string) =>
+  z.string().regex(/^\d+$/, `${label} must contain digits only`);
+
+const sourceSchemas = {
+  ga4: z
+    .object({
+      propertyId: numericId('GA4 property ID'),
+      enabled: z.boolean().default(true),
+    })
+    .strict(),
+  googleAds: z
+    .object({
+      customerId: z
+        .string()
+        .regex(/^\d{10}$/, 'Google Ads customer ID must be 10 digits'),
+      enabled: z.boolean().default(true),
+    })
+    .strict(),
+  metricool: z
+    .object({
+      blogId: numericId('Metricool blog ID'),
+      enabled: z.boolean().default(true),
+    })
+    .strict(),
+};
+
+export type DataSource = keyof typeof sourceSchemas;
+
+export const dataSources = Object.keys(sourceSchemas) as DataSource[];
+
+const sourcesSchema = z.object({
+  ga4: sourceSchemas.ga4.optional(),
+  googleAds: sourceSchemas.googleAds.optional(),
+  metricool: sourceSchemas.metricool.optional(),
+});
+
+const tenantSchema = z
+  .object({
+    companyId: z.string().uuid(),
+    name: z.string().trim().min(1),
+    visibility: sectionVisibilitySchema.optional(),
+  })
+  .merge(sourcesSchema)
+  .strict();
+
+/**
+ * Clients whose account IDs we already know but who don't have a Copilot
+ * company yet. They are validated with everything else but never resolved.
+ */
+const pendingTenantSchema = z
+  .object({ name: z.string().trim().min(1) })
+  .merge(sourcesSchema)
+  .strict();
+
+export const sourceIdKeys = {
+  ga4: 'propertyId',
+  googleAds: 'customerId',
+  metricool: 'blogId',
+} as const;
+
+export const tenantRegistrySchema = z
+  .object({
+    tenants: z.array(tenantSchema),
+    pending: z.array(pendingTenantSchema).default([]),
+  })
+  .strict()
+  .superRefine((registry, ctx) => {
+    const companyIds = new Set<string>();
+    registry.tenants.forEach((tenant, idx) => {
+      if (companyIds.has(tenant.companyId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['tenants', idx, 'companyId'],
+          message: `Duplicate company ID ${tenant.companyId}`,
+        });
+      }
+      companyIds.add(tenant.companyId);
+    });
+
+    // Two companies pointing at the same account would show one client's
+    // numbers to another, so account IDs must be unique per source.
+    const entries = [
+      ...registry.tenants.map((tenant, idx) => ({
+        tenant,
+        path: ['tenants', idx],
+      })),
+      ...registry.pending.map((tenant, idx) => ({
+        tenant,
+        path: ['pending', idx],
+      })),
+    ];
+    for (const source of dataSources) {
+      const idKey = sourceIdKeys[source];
+      const owners = new Map<string, string>();
+      for (const { tenant, path } of entries) {
+        const config = tenant[source] as Record<string, string> | undefined;
+        if (!config) continue;
+        const id = config[idKey];
+        const owner = owners.get(id);
+        if (owner) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [...path, source, idKey],
+            message: `${source} ${idKey} ${id} is already assigned to ${owner}`,
+          });
+        } else {
+          owners.set(id, tenant.name);
+        }
+      }
+    }
+  });
+
+export type TenantRegistry = z.infer<typeof tenantRegistrySchema>;
+export type Tenant = TenantRegistry['tenants'][number];
+export type PendingTenant = TenantRegistry['pending'][number];
+
+const SEED_PATH = 'src/config/tenants.json';
+
+/**
+ * Mappings saved from the /internal admin screen live in a local store
+ * that takes precedence over the checked-in seed config.
+ */
+const STORE_PATH =
+  process.env.TENANT_STORE_PATH ??
+  path.join(process.cwd(), '.data', 'tenants.json');
+
+/**
+ * Validates a raw registry and throws a readable error listing every
+ * problem, so a bad config fails the first request that touches it
+ * instead of quietly serving the wrong account.
+ */
+export function parseTenantRegistry(
+  raw: unknown,
+  source: string = SEED_PATH,
+): TenantRegistry {
+  const result = tenantRegistrySchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  - ${formatIssuePath(issue.path)}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid tenant registry (${source}):\n${issues}`);
+  }
+  return result.data;
+}
+
+export function formatIssuePath(issuePath: (string | number)[]) {
+  return issuePath.join('.') || '(root)';
+}
+
+let cache:
+  | {
+      mtimeMs: number | null;
+      registry: TenantRegistry;
+      byCompanyId: Map<string, Tenant>;
+    }
+  | undefined;
+
+function loadRegistry() {
+  const mtimeMs = fs.existsSync(STORE_PATH)
+    ? fs.statSync(STORE_PATH).mtimeMs
+    : null;
+  if (cache && cache.mtimeMs === mtimeMs) {
+    return cache;
+  }
+
+  const registry =
+    mtimeMs === null
+      ? parseTenantRegistry(tenantsConfig)
+      : parseTenantRegistry(
+          JSON.parse(fs.readFileSync(STORE_PATH, 'utf8')),
+          STORE_PATH,
+        );
+  cache = {
+    mtimeMs,
+    registry,
+    byCompanyId: new Map(
+      registry.tenants.map((tenant) => [tenant.companyId, tenant]),
+    ),
+  };
+  return cache;
+}
+
+// Load once at import so a broken registry fails loudly on startup.
+loadRegistry();
+
+export function getTenantRegistry() {
+  return loadRegistry().registry;
+}
+
+// Saves run one at a time so concurrent writes can't interleave in the
+// temp file before it is renamed into place
+let pendingSave: Promise<void> = Promise.resolve();
+
+/**
+ * Writes the registry to the local store. Callers are expected to have
+ * validated it with `tenantRegistrySchema` first.
+ */
+export function saveTenantRegistry(registry: TenantRegistry) {
+  const save = pendingSave.then(async () => {
+    await fs.promises.mkdir(path.dirname(STORE_PATH), { recursive: true });
+    const tmpPath = `${STORE_PATH}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(registry, null, 2));
+    await fs.promises.rename(tmpPath, STORE_PATH);
+    cache = undefined;
+  });
+  // A failed save is the caller's to report; the next one still runs
+  pendingSave = save.catch(() => undefined);
+  return save;
+}
+
+export function getTenant(companyId: string | undefined) {
+  return companyId ? loadRegistry().byCompanyId.get(companyId) : undefined;
+}
+
+/**
+ * Returns a tenant's config for one data source, or undefined when it
+ * isn't mapped or has been switched off.
+ */
+export function getTenantSource<S extends DataSource>(
+  tenant: Tenant,
+  source: S,
+): NonNullable<Tenant[S]> | undefined {
+  const config = tenant[source];
+  return config?.enabled ? config : undefined;
+}
+
+export type TenantErrorReason =
+  | 'no_company'
+  | 'not_onboarded'
+  | 'source_not_configured'
+  | 'source_disabled';
+
+const sourceLabels: Record<DataSource, string> = {
+  ga4: 'Google Analytics',
+  googleAds: 'Google Ads',
+  metricool: 'Metricool',
+};
+
+/**
+ * Raised when a request can't be mapped to a tenant's data source. Routes
+ * turn it into a 404 (nobody to show data for) or a 409 (the company is
+ * onboarded but this source isn't available) instead of showing another
+ * client's numbers.
+ */
+export class TenantResolutionError extends Error {
+  constructor(
+    public reason: TenantErrorReason,
+    message: string,
+    public companyId?: string,
+    public companyName?: string,
+    public source?: DataSource,
+  ) {
+    super(message);
+    this.name = 'TenantResolutionError';
+  }
+
+  get status() {
+    return this.reason === 'no_company' || this.reason === 'not_onboarded'
+      ? 404
+      : 409;
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      reason: this.reason,
+      companyId: this.companyId,
+      companyName: this.companyName,
+      source: this.source,
+    };
+  }
+}
+
+/**
+ * Resolves the tenant for a Copilot company, or throws a
+ * TenantResolutionError when there is no company or it isn't onboarded.
+ */
+export function requireTenant(
+  companyId: string | undefined,
+  source?: DataSource,
+) {
+  if (!companyId) {
+    throw new TenantResolutionError(
+      'no_company',
+      'This session is not associated with a company',
+      undefined,
+      undefined,
+      source,
+    );
+  }
+
+  const tenant = getTenant(companyId);
+  if (!tenant) {
+    throw new TenantResolutionError(
+      'not_onboarded',
+      'This company has not been onboarded yet',
+      companyId,
+      undefined,
+      source,
+    );
+  }
+
+  return tenant;
+}
+
+/**
+ * Resolves the tenant and enabled source config for a Copilot company, or
+ * throws a TenantResolutionError explaining why there's nothing to show.
+ */
+export function requireTenantSource<S extends DataSource>(
+  companyId: string | undefined,
+  source: S,
+) {
+  const tenant = requireTenant(companyId, source);
+  const config = getTenantSource(tenant, source);
+  if (!config) {
+    throw new TenantResolutionError(
+      tenant[source] ? 'source_disabled' : 'source_not_configured',
+      `${sourceLabels[source]} is not ${tenant[source] ? 'enabled' : 'set up'} for ${tenant.name}`,
+      companyId,
+      tenant.name,
+      source,
+    );
+  }
+
+  return { tenant, config };
+}
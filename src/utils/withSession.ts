@@ -0,0 +1,376 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { copilotApi, type CopilotAPI } from 'copilot-node-sdk';
+import {
+  getRequestSessionToken,
+  openSessionToken,
+  SESSION_TTL_SECONDS,
+} from '@/utils/appSession';
+import {
+  appendAuditRecord,
+  outcomeForStatus,
+  type AuditRecord,
+} from '@/utils/audit';
+import { canAccessCompany } from '@/utils/companies';
+import { dateRangeSchema, type DateRange } from '@/utils/dateRanges';
+import {
+  resolveSectionAccess,
+  sourceSections,
+  type SectionAccess,
+} from '@/utils/sections';
+import {
+  retrieveSessionData,
+  type SessionData,
+  type TokenPayload,
+} from '@/utils/session';
+import {
+  requireTenant,
+  requireTenantSource,
+  TenantResolutionError,
+  type DataSource,
+  type Tenant,
+} from '@/utils/tenants';
+
+/**
+ * Throw from a route body to answer with a specific status. Anything in
+ * `details` is merged into the JSON body next to `error`.
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  toJSON() {
+    return { error: this.message, ...this.details };
+  }
+}
+
+/**
+ * The validated `startDate`/`endDate` of a data request, or a 400 listing
+ * what is wrong with them.
+ */
+export function parseDateRange(searchParams: URLSearchParams): DateRange {
+  const parsed = dateRangeSchema.safeParse({
+    startDate: searchParams.get('startDate') || undefined,
+    endDate: searchParams.get('endDate') || undefined,
+  });
+  if (!parsed.success) {
+    throw new ApiError(400, 'Invalid date range', {
+      issues: parsed.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })),
+    });
+  }
+  return parsed.data;
+}
+
+export interface SessionContext extends SessionData {
+  copilot: CopilotAPI;
+  tokenPayload: TokenPayload;
+  userType: 'client' | 'internal';
+  userId: string;
+  /** The company being viewed: the token's, or an internal user's pick. */
+  companyId?: string;
+}
+
+export type TenantSessionContext<S extends DataSource> = SessionContext & {
+  tenant: Tenant;
+  sourceConfig: NonNullable<Tenant[S]>;
+  /** Sections this user may see; the route's own section is always true. */
+  sections: SectionAccess;
+};
+
+interface WithSessionOptions<S extends DataSource | undefined> {
+  /** Resolve the caller's tenant and require this source to be enabled. */
+  source?: S;
+  /** Reject anyone who isn't an internal user with a 403. */
+  internalOnly?: boolean;
+  /** Environment variables the route can't run without. */
+  env?: string[];
+  /** Message for unexpected failures, e.g. 'Failed to fetch analytics data'. */
+  errorMessage?: string;
+  /**
+   * Answer for a tenant that doesn't have `source` set up or enabled,
+   * instead of the 409. Runs after the section visibility check.
+   */
+  sourceUnavailable?: (tenant: Tenant, error: TenantResolutionError) => Response;
+  /**
+   * The dashboard polls this route. Its Copilot lookup is reused for a
+   * few minutes per session and company, and it is audited once per
+   * session, company and outcome instead of on every poll.
+   */
+  polled?: boolean;
+}
+
+type Handler<S extends DataSource | undefined> = (
+  request: NextRequest,
+  session: S extends DataSource ? TenantSessionContext<S> : SessionContext,
+) => Promise<Response>;
+
+type AuditSubject = Partial<
+  Pick<AuditRecord, 'userId' | 'userType' | 'companyId' | 'companyName'>
+> & {
+  /** Session token and company of a polled request. */
+  pollKey?: string;
+};
+
+/** How long a polled route reuses one Copilot lookup. */
+const POLLED_SESSION_TTL_MS = 5 * 60 * 1000;
+
+// Both keyed by session token and company, and only for polled routes
+const polledSessions = new Map<string, { sessionData: SessionData; expiresAt: number }>();
+const auditedPolls = new Map<string, { expiresAt: number }>();
+
+function pruneExpired(entries: Map<string, { expiresAt: number }>, now: number) {
+  entries.forEach((entry, key) => {
+    if (entry.expiresAt <= now) entries.delete(key);
+  });
+}
+
+// Copilot answers 401/403 when the token's workspace key is rejected
+function isCopilotAuthError(error: any) {
+  return error?.status === 401 || error?.status === 403;
+}
+
+/**
+ * Wraps an API route so the session from `/api/session` is opened, its
+ * Copilot token validated once, and the handler receives a resolved
+ * session. Missing, expired or invalid sessions get a 401, missing
+ * config a 500, a `companyId` override from anyone but a permitted
+ * internal user a 403, tenant problems the 404/409 from
+ * `TenantResolutionError` (or the route's `sourceUnavailable` answer
+ * for a source that is off), and a section the tenant hides from this user
+ * a 403, before the route body runs. Routes with a `source` also get an
+ * audit record for every identified caller (once per session for
+ * `polled` routes).
+ */
+export function withSession<S extends DataSource | undefined = undefined>(
+  options: WithSessionOptions<S>,
+  handler: Handler<S>,
+) {
+  async function handle(request: NextRequest, audit: AuditSubject) {
+    try {
+      const missingVars = [
+        'COPILOT_API_KEY',
+        'SESSION_SECRET',
+        ...(options.env ?? []),
+      ].filter((name) => !process.env[name]);
+      if (missingVars.length > 0) {
+        console.error('Missing environment variables:', missingVars);
+        return NextResponse.json(
+          { error: 'Server configuration error', missing: missingVars },
+          { status: 500 },
+        );
+      }
+
+      const sessionToken = getRequestSessionToken(request);
+      if (!sessionToken) {
+        return NextResponse.json({ error: 'No session provided' }, { status: 401 });
+      }
+      const token = openSessionToken(sessionToken);
+      if (!token) {
+        return NextResponse.json(
+          { error: 'Session expired or invalid' },
+          { status: 401 },
+        );
+      }
+
+      // Outside local mode the SDK throws for a token it can't decrypt,
+      // e.g. one that expired after the session was opened
+      let copilot: CopilotAPI;
+      let tokenPayload: TokenPayload | undefined;
+      try {
+        copilot = copilotApi({
+          apiKey: process.env.COPILOT_API_KEY ?? '',
+          token,
+        });
+        tokenPayload = await copilot.getTokenPayload?.();
+      } catch {
+        return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+      }
+      const userId = tokenPayload?.internalUserId ?? tokenPayload?.clientId;
+      if (!tokenPayload || !userId) {
+        return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+      }
+
+      const userType = tokenPayload.internalUserId ? 'internal' : 'client';
+      audit.userId = userId;
+      audit.userType = userType;
+      if (options.internalOnly && userType !== 'internal') {
+        return NextResponse.json(
+          { error: 'Only internal users can access this resource' },
+          { status: 403 },
+        );
+      }
+
+      // Internal users pick which company to view; clients are always
+      // locked to the company in their token.
+      const requestedCompanyId =
+        request.nextUrl.searchParams.get('companyId') || undefined;
+      const isOverride =
+        !!requestedCompanyId && requestedCompanyId !== tokenPayload.companyId;
+      const companyId = requestedCompanyId ?? tokenPayload.companyId;
+      // Set before any access check so a denied attempt is logged against
+      // the company that was asked for
+      audit.companyId = companyId;
+      if (isOverride && userType !== 'internal') {
+        return NextResponse.json(
+          { error: 'Clients can only view their own company' },
+          { status: 403 },
+        );
+      }
+
+      const pollKey = options.polled ? `${sessionToken}:${companyId}` : undefined;
+      audit.pollKey = pollKey;
+      const polledSession = pollKey ? polledSessions.get(pollKey) : undefined;
+
+      let sessionData: SessionData;
+      try {
+        if (polledSession && polledSession.expiresAt > Date.now()) {
+          sessionData = polledSession.sessionData;
+        } else {
+          sessionData = await retrieveSessionData(copilot, {
+            ...tokenPayload,
+            companyId,
+          });
+          if (pollKey) {
+            pruneExpired(polledSessions, Date.now());
+            polledSessions.set(pollKey, {
+              sessionData,
+              expiresAt: Date.now() + POLLED_SESSION_TTL_MS,
+            });
+          }
+        }
+      } catch (error: any) {
+        if (isCopilotAuthError(error)) {
+          return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+        }
+        if (isOverride && error?.status === 404) {
+          return NextResponse.json(
+            { error: 'Company not found' },
+            { status: 404 },
+          );
+        }
+        throw error;
+      }
+
+      if (
+        isOverride &&
+        sessionData.internalUser &&
+        !canAccessCompany(sessionData.internalUser, requestedCompanyId)
+      ) {
+        return NextResponse.json(
+          { error: 'You do not have access to this company' },
+          { status: 403 },
+        );
+      }
+
+      const session: SessionContext = {
+        ...sessionData,
+        copilot,
+        tokenPayload,
+        userType,
+        userId,
+        companyId,
+      };
+
+      if (options.source) {
+        const tenant = requireTenant(session.companyId, options.source);
+        audit.companyName = tenant.name;
+
+        const sections = resolveSectionAccess(tenant, session);
+        const section = sourceSections[options.source];
+        if (!sections[section]) {
+          throw new ApiError(
+            403,
+            'This section is not available to your account',
+            { reason: 'section_hidden', section, source: options.source },
+          );
+        }
+
+        let config;
+        try {
+          ({ config } = requireTenantSource(session.companyId, options.source));
+        } catch (error) {
+          if (error instanceof TenantResolutionError && options.sourceUnavailable) {
+            return options.sourceUnavailable(tenant, error);
+          }
+          throw error;
+        }
+
+        return await handler(request, {
+          ...session,
+          tenant,
+          sourceConfig: config,
+          sections,
+        } as Parameters<Handler<S>>[1]);
+      }
+
+      return await handler(request, session as Parameters<Handler<S>>[1]);
+    } catch (error: any) {
+      if (
+        error instanceof ApiError ||
+        error instanceof TenantResolutionError
+      ) {
+        return NextResponse.json(error, { status: error.status });
+      }
+
+      console.error(`Unexpected error in ${request.nextUrl.pathname}:`, error);
+      return NextResponse.json(
+        {
+          error: options.errorMessage ?? 'Request failed',
+          details: error.message,
+          errorType: error.name || 'Unknown',
+        },
+        { status: 500 },
+      );
+    }
+  }
+
+  return async function (request: NextRequest) {
+    const audit: AuditSubject = {};
+    const response = await handle(request, audit);
+
+    // Data requests are audited once we know who is asking, whatever
+    // the outcome. A failed write is logged but never fails the request.
+    if (options.source && audit.userId && audit.userType && isFirstPoll(audit, response)) {
+      const { searchParams, pathname } = request.nextUrl;
+      await appendAuditRecord({
+        timestamp: new Date().toISOString(),
+        userId: audit.userId,
+        userType: audit.userType,
+        companyId: audit.companyId,
+        companyName: audit.companyName,
+        source: options.source,
+        path: pathname,
+        dateRange: {
+          startDate: searchParams.get('startDate') ?? undefined,
+          endDate: searchParams.get('endDate') ?? undefined,
+        },
+        outcome: outcomeForStatus(response.status),
+        status: response.status,
+      }).catch((error) => console.error('Failed to write audit record:', error));
+    }
+
+    return response;
+  };
+}
+
+/**
+ * False for a polled request whose session already logged the same
+ * outcome for this company, so polling doesn't bury real accesses.
+ */
+function isFirstPoll(audit: AuditSubject, response: Response) {
+  if (!audit.pollKey) return true;
+  const key = `${audit.pollKey}:${outcomeForStatus(response.status)}`;
+  const now = Date.now();
+  if ((auditedPolls.get(key)?.expiresAt ?? 0) > now) return false;
+  pruneExpired(auditedPolls, now);
+  auditedPolls.set(key, { expiresAt: now + SESSION_TTL_SECONDS * 1000 });
+  return true;
+}